@@ -0,0 +1,194 @@
+// Compares the number of API calls made to collect the disk usage data by the
+// old approach (one call per resource and per notebook) and by collectUsage(),
+// using a synthetic profile and a mocked `joplin.data` API.
+//
+// Usage: node benchmark/usage.js [--resources 20000] [--notes 10000] [--folders 200] [--latency 5]
+//
+// The latency (in ms) is not actually waited for, it's used to estimate how
+// long each approach would take against a real Joplin instance.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+function option(name, defaultValue) {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? Number(process.argv[index + 1]) : defaultValue;
+}
+
+const options = {
+    resources: option('resources', 20000),
+    notes: option('notes', 10000),
+    folders: option('folders', 200),
+    latency: option('latency', 5),
+};
+
+// Deterministic random numbers so that runs can be compared
+let seed = 42;
+function random() {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+}
+
+function randomInt(max) {
+    return Math.floor(random() * max);
+}
+
+let idCounter = 0;
+function makeId() {
+    idCounter++;
+    return idCounter.toString(16).padStart(32, '0');
+}
+
+function createDataset() {
+    const folders = [];
+    for (let i = 0; i < options.folders; i++) {
+        // Roughly a third of the notebooks are sub-notebooks
+        const parent = i > 0 && random() < 0.3 ? folders[randomInt(folders.length)].id : '';
+        folders.push({ id: makeId(), title: `Notebook ${i}`, parent_id: parent });
+    }
+
+    const resources = [];
+    for (let i = 0; i < options.resources; i++) {
+        resources.push({
+            id: makeId(),
+            title: `resource-${i}.png`,
+            size: 1000 + randomInt(5 * 1024 * 1024),
+            mime: 'image/png',
+            created_time: Date.now(),
+        });
+    }
+
+    const notes = [];
+    const resourceNotes = {};
+    for (let i = 0; i < options.notes; i++) {
+        const note = { id: makeId(), title: `Note ${i}`, parent_id: folders[randomInt(folders.length)].id, markup_language: 1 };
+        const links = [];
+        for (let j = randomInt(5); j > 0; j--) {
+            const resource = resources[randomInt(resources.length)];
+            links.push(`![${resource.title}](:/${resource.id})`);
+            if (!resourceNotes[resource.id]) resourceNotes[resource.id] = [];
+            resourceNotes[resource.id].push(note);
+        }
+        note.body = `# ${note.title}\n\nSome text.\n\n${links.join('\n')}\n`;
+        notes.push(note);
+    }
+
+    return { folders, resources, notes, resourceNotes };
+}
+
+function createMockJoplin(dataset, stats) {
+    const tables = { folders: dataset.folders, notes: dataset.notes, resources: dataset.resources };
+
+    function pick(item, fields) {
+        if (!fields) return { ...item };
+        const output = {};
+        for (const field of fields) output[field] = item[field];
+        return output;
+    }
+
+    return {
+        settings: {
+            value: async () => 'full',
+        },
+        data: {
+            resourcePath: async (id) => path.join(__dirname, id),
+            get: async (apiPath, query = {}) => {
+                stats.calls++;
+
+                if (apiPath.length === 1) {
+                    const page = query.page || 1;
+                    const limit = query.limit || 100;
+                    const items = tables[apiPath[0]].slice((page - 1) * limit, page * limit);
+                    return {
+                        items: items.map(item => pick(item, query.fields)),
+                        has_more: page * limit < tables[apiPath[0]].length,
+                    };
+                }
+
+                if (apiPath[0] === 'resources' && apiPath[2] === 'notes') {
+                    const items = dataset.resourceNotes[apiPath[1]] || [];
+                    return { items: items.map(item => pick(item, query.fields)), has_more: false };
+                }
+
+                if (apiPath[0] === 'folders') {
+                    return pick(dataset.folders.find(folder => folder.id === apiPath[1]), query.fields);
+                }
+
+                throw new Error(`Unsupported path: ${apiPath.join('/')}`);
+            },
+        },
+    };
+}
+
+// Compiles a plugin source file and evaluates it with `api` pointing to the mock
+function loadModule(fileName, mockJoplin, modules) {
+    const source = fs.readFileSync(path.resolve(__dirname, '../src', fileName), 'utf8');
+    const output = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017 } });
+
+    const module = { exports: {} };
+    const requireModule = name => {
+        if (name === 'api') return { default: mockJoplin };
+        if (modules[name]) return modules[name];
+        if (!name.startsWith('.')) return require(name);
+        throw new Error(`Unexpected import: ${name}`);
+    };
+    new Function('require', 'module', 'exports', output.outputText)(requireModule, module, module.exports);
+    return module.exports;
+}
+
+// The collection phase as it used to be: one call per resource to get its
+// notes, and one call per notebook the first time it's seen
+async function legacyCollect(joplin) {
+    let page = 1;
+    let resources = [];
+    let response;
+
+    do {
+        response = await joplin.data.get(['resources'], { fields: ['id', 'size', 'title'], page: page, limit: 100 });
+        resources = resources.concat(response.items);
+        page++;
+    } while (response.has_more);
+
+    const notebookNames = {};
+    for (const resource of resources) {
+        const linkedNotes = await joplin.data.get(['resources', resource.id, 'notes'], { fields: ['id', 'title', 'parent_id'] });
+        for (const note of linkedNotes.items) {
+            if (!notebookNames[note.parent_id]) {
+                const notebook = await joplin.data.get(['folders', note.parent_id]);
+                notebookNames[note.parent_id] = notebook.title;
+            }
+        }
+    }
+}
+
+// `prepare` receives the mocked API and returns the function to be measured
+async function measure(name, prepare) {
+    const stats = { calls: 0 };
+    const mockJoplin = createMockJoplin(dataset, stats);
+    const fn = prepare(mockJoplin);
+    const startTime = Date.now();
+    await fn();
+    const duration = Date.now() - startTime;
+    const estimate = (stats.calls * options.latency) / 1000;
+    console.info(`${name.padEnd(14)} ${String(stats.calls).padStart(8)} calls ${String(duration).padStart(8)} ms local  ~${estimate.toFixed(1)} s at ${options.latency} ms/call`);
+}
+
+const dataset = createDataset();
+
+async function main() {
+    console.info(`Synthetic profile: ${options.resources} resources, ${options.notes} notes, ${options.folders} notebooks\n`);
+
+    await measure('Legacy', mockJoplin => () => legacyCollect(mockJoplin));
+    await measure('collectUsage', mockJoplin => {
+        const format = loadModule('format.ts', mockJoplin, {});
+        const duplicates = loadModule('duplicates.ts', mockJoplin, {});
+        const usage = loadModule('usage.ts', mockJoplin, { './format': format, './duplicates': duplicates });
+        return () => usage.collectUsage();
+    });
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
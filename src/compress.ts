@@ -0,0 +1,201 @@
+import joplin from 'api';
+import { MenuItemLocation } from 'api/types';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { formatSize, mebibytesToBytes, escapeHtml } from './format';
+import { fetchResourcesWithNotes } from './usage';
+
+// Animated and vector images would be broken by converting them to JPEG
+const skippedMimes = ['image/gif', 'image/svg+xml'];
+
+export async function registerCompress() {
+    const dialog = await joplin.views.dialogs.create('compressImagesDialog');
+
+    await joplin.commands.register({
+        name: 'compressLargeImages',
+        label: 'Compress Large Images',
+        iconName: 'fas fa-compress',
+        execute: async () => {
+            await compressImages(dialog, false);
+        }
+    });
+
+    await joplin.commands.register({
+        name: 'compressLargeImagesDryRun',
+        label: 'Compress Large Images (Dry Run)',
+        iconName: 'fas fa-compress',
+        execute: async () => {
+            await compressImages(dialog, true);
+        }
+    });
+
+    await joplin.views.menuItems.create('compressLargeImagesMenuItem', 'compressLargeImages', MenuItemLocation.Tools);
+    await joplin.views.menuItems.create('compressLargeImagesDryRunMenuItem', 'compressLargeImagesDryRun', MenuItemLocation.Tools);
+}
+
+// Resizes the image so that it fits the maximum dimension. Returns the handle
+// to convert, which is the original one if it's small enough already.
+async function resizedHandle(handle, maxDimension) {
+    const size = await joplin.imaging.getSize(handle);
+    if (size.width <= maxDimension && size.height <= maxDimension) { return handle; }
+
+    const options = size.width >= size.height ? { width: maxDimension } : { height: maxDimension };
+    return joplin.imaging.resize(handle, { ...options, quality: 'good' });
+}
+
+// Whether a PNG may have transparent pixels, which JPEG would flatten: its
+// colour type has an alpha channel, or a tRNS chunk comes before the image data.
+// Only the chunk headers are read. Files that can't be read count as transparent.
+async function isTransparentPng(resource) {
+    let file;
+    try {
+        file = await fs.open(await joplin.data.resourcePath(resource.id), 'r');
+        const header = Buffer.alloc(8);
+        let position = 8; // After the PNG signature
+
+        for (;;) {
+            const { bytesRead } = await file.read(header, 0, 8, position);
+            if (bytesRead < 8) { return false; }
+
+            const type = header.toString('ascii', 4, 8);
+            if (type === 'IHDR') {
+                const colourType = Buffer.alloc(1);
+                await file.read(colourType, 0, 1, position + 8 + 9);
+                if (colourType[0] === 4 || colourType[0] === 6) { return true; }
+            } else if (type === 'tRNS') {
+                return true;
+            } else if (type === 'IDAT' || type === 'IEND') {
+                return false;
+            }
+
+            position += 12 + header.readUInt32BE(0); // Length, type, data and CRC
+        }
+    } catch (error) {
+        return true;
+    } finally {
+        if (file) {
+            await file.close();
+        }
+    }
+}
+
+// Converts the image to a smaller JPEG. In a dry run the JPEG is only written
+// to a temporary file to measure it, otherwise it becomes a new resource, the
+// linked notes are updated to use it and the original resource is deleted.
+// Returns the new size, or null if the image couldn't be made smaller.
+async function compressImage(resource, options, dryRun) {
+    let handle = null;
+    let resized = null;
+
+    try {
+        handle = await joplin.imaging.createFromResource(resource.id);
+        resized = await resizedHandle(handle, options.maxDimension);
+
+        if (dryRun) {
+            const tempPath = path.join(await joplin.plugins.dataDir(), `compress-${resource.id}.jpg`);
+            await joplin.imaging.toJpgFile(resized, tempPath, options.quality);
+            const stat = await fs.stat(tempPath);
+            await fs.unlink(tempPath);
+            return stat.size < resource.size ? stat.size : null;
+        }
+
+        const title = `${(resource.title || 'image').replace(/\.[^.]+$/, '')}.jpg`;
+        const newResource = await joplin.imaging.toJpgResource(resized, { title: title }, options.quality);
+        const { size } = await joplin.data.get(['resources', newResource.id], { fields: ['id', 'size'] });
+
+        if (size >= resource.size) {
+            await joplin.data.delete(['resources', newResource.id]);
+            return null;
+        }
+
+        // Notes in the trash too, or they would lose the image once restored
+        for (let linkedNote of resource.notes.concat(resource.trashedNotes)) {
+            const note = await joplin.data.get(['notes', linkedNote.id], { fields: ['id', 'body'] });
+            await joplin.data.put(['notes', note.id], null, {
+                body: note.body.split(`:/${resource.id}`).join(`:/${newResource.id}`),
+            });
+        }
+        await joplin.data.delete(['resources', resource.id]);
+
+        return size;
+    } finally {
+        if (resized && resized !== handle) {
+            await joplin.imaging.free(resized);
+        }
+        if (handle) {
+            await joplin.imaging.free(handle);
+        }
+    }
+}
+
+async function compressImages(dialog, dryRun) {
+    const options = {
+        minSize: mebibytesToBytes(await joplin.settings.value('compressMinSize')),
+        maxDimension: await joplin.settings.value('compressMaxDimension'),
+        quality: await joplin.settings.value('compressQuality'),
+    };
+
+    let resources = await fetchResourcesWithNotes();
+    let candidates = resources
+    .filter(resource => (resource.mime || '').startsWith('image/') && !skippedMimes.includes(resource.mime))
+    .filter(resource => resource.size >= options.minSize)
+    .sort((a, b) => b.size - a.size);
+
+    let transparentCount = 0;
+    for (let resource of candidates.filter(resource => resource.mime === 'image/png')) {
+        if (await isTransparentPng(resource)) {
+            candidates.splice(candidates.indexOf(resource), 1);
+            transparentCount++;
+        }
+    }
+    let transparentNote = transparentCount ? ` ${transparentCount} PNG image(s) with transparency were skipped.` : '';
+
+    if (!candidates.length) {
+        await joplin.views.dialogs.showMessageBox(`There are no images larger than ${formatSize(options.minSize)} to compress.${transparentNote}`);
+        return;
+    }
+
+    if (!dryRun) {
+        const answer = await joplin.views.dialogs.showMessageBox(
+            `Compress ${candidates.length} image(s) larger than ${formatSize(options.minSize)}? ` +
+            `The notes using them will be updated and the original images deleted. This cannot be undone.`
+        );
+        if (answer !== 0) { return; }
+    }
+
+    let rows = '';
+    let savedSize = 0;
+    for (let resource of candidates) {
+        let newSize = null;
+        let error = '';
+        try {
+            newSize = await compressImage(resource, options, dryRun);
+        } catch (compressError) {
+            error = compressError.message;
+        }
+
+        let result = error ? `Failed: ${escapeHtml(error)}` : 'Already small enough';
+        if (newSize !== null) {
+            savedSize += resource.size - newSize;
+            result = `${formatSize(newSize)} (saves ${formatSize(resource.size - newSize)})`;
+        }
+
+        rows += `<tr>
+            <td>${escapeHtml(resource.title || 'Untitled')}</td>
+            <td>${formatSize(resource.size)}</td>
+            <td>${result}</td>
+            <td>${resource.notes.length}</td>
+        </tr>`;
+    }
+
+    await joplin.views.dialogs.setHtml(dialog, `
+        <h3>${dryRun ? 'Compress Large Images (Dry Run)' : 'Compress Large Images'}</h3>
+        <p>${dryRun ? 'Nothing has been changed. Compressing would save' : 'Saved'} ${formatSize(savedSize)}.${transparentNote}</p>
+        <table>
+            <tr><th>Title</th><th>Size</th><th>${dryRun ? 'Compressed size' : 'New size'}</th><th>Notes</th></tr>
+            ${rows}
+        </table>
+    `);
+    await joplin.views.dialogs.setButtons(dialog, [{ id: 'ok', title: 'Close' }]);
+    await joplin.views.dialogs.open(dialog);
+}
@@ -0,0 +1,62 @@
+import joplin from 'api';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+function hashFile(filePath): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = createHash('sha256');
+        createReadStream(filePath)
+        .on('error', reject)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+// Groups resources that have the same size and the same file content. Only
+// resources sharing their size with another one are hashed, and resources whose
+// file is not available (e.g. not downloaded yet) are skipped.
+export async function findDuplicateResources(resources, scan = null) {
+    let bySize = {};
+    for (let resource of resources) {
+        if (!resource.size) { continue; }
+        if (!bySize[resource.size]) {
+            bySize[resource.size] = [];
+        }
+        bySize[resource.size].push(resource);
+    }
+
+    let candidates = [];
+    for (let size of Object.keys(bySize)) {
+        if (bySize[size].length > 1) {
+            candidates = candidates.concat(bySize[size]);
+        }
+    }
+
+    let byHash = {};
+    for (let i = 0; i < candidates.length; i++) {
+        if (scan && scan.cancelled) { break; }
+
+        let resource = candidates[i];
+        if (scan) {
+            await scan.progress('Looking for duplicate attachments', i, candidates.length);
+        }
+
+        let hash;
+        try {
+            hash = await hashFile(await joplin.data.resourcePath(resource.id));
+        } catch (error) {
+            continue;
+        }
+
+        let key = `${resource.size}:${hash}`;
+        if (!byHash[key]) {
+            byHash[key] = [];
+        }
+        byHash[key].push(resource);
+    }
+
+    return Object.keys(byHash)
+    .map(key => byHash[key])
+    .filter(group => group.length > 1)
+    .sort((a, b) => b[0].size * (b.length - 1) - a[0].size * (a.length - 1));
+}
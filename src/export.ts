@@ -0,0 +1,153 @@
+import joplin from 'api';
+import { MenuItemLocation } from 'api/types';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { collectUsage, isScanRunning } from './usage';
+
+const columns = ['notebook', 'notebook_id', 'note', 'note_id', 'resource_id', 'title', 'mime', 'size', 'shared'];
+
+// One row per resource and note linking to it. Resources only used by notes
+// in the trash are listed under a "Trash" notebook without ID, unreferenced
+// resources get a single row without notebook and note.
+function exportRows(usage) {
+    let rows = [];
+
+    for (let notebookId of Object.keys(usage.resourceData)) {
+        for (let entry of usage.resourceData[notebookId]) {
+            rows.push({
+                notebook: usage.notebookNames[notebookId],
+                notebook_id: notebookId,
+                note: entry.noteTitle,
+                note_id: entry.noteId,
+                resource_id: entry.id,
+                title: entry.resourceTitle,
+                mime: entry.resourceMime,
+                size: entry.resourceSize,
+                shared: entry.shared,
+            });
+        }
+    }
+
+    for (let resource of usage.trashResources) {
+        for (let note of resource.trashedNotes) {
+            rows.push({
+                notebook: 'Trash',
+                notebook_id: '',
+                note: note.title || 'Untitled Note',
+                note_id: note.id,
+                resource_id: resource.id,
+                title: resource.title || 'Untitled',
+                mime: resource.mime || '',
+                size: resource.size,
+                shared: false,
+            });
+        }
+    }
+
+    for (let resource of usage.unreferencedResources) {
+        rows.push({
+            notebook: '',
+            notebook_id: '',
+            note: '',
+            note_id: '',
+            resource_id: resource.id,
+            title: resource.title || 'Untitled',
+            mime: resource.mime || '',
+            size: resource.size,
+            shared: false,
+        });
+    }
+
+    return rows.sort((a, b) => b.size - a.size);
+}
+
+function csvField(value) {
+    let text = String(value === undefined || value === null ? '' : value);
+    if (/[",\r\n]/.test(text)) {
+        text = `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+function toCsv(rows) {
+    let lines = [columns.join(',')];
+    for (let row of rows) {
+        lines.push(columns.map(column => csvField(row[column])).join(','));
+    }
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+function toJson(usage, rows) {
+    return JSON.stringify({
+        created_time: new Date().toISOString(),
+        incomplete: usage.incomplete,
+        total_size: usage.totalSize,
+        total_attachment_size: usage.totalAttachmentSize,
+        total_text_size: usage.totalTextSize,
+        total_trash_size: usage.totalTrashSize,
+        resources: rows,
+    }, null, 2);
+}
+
+async function exportUsage(format) {
+    if (isScanRunning()) {
+        await joplin.views.dialogs.showMessageBox('A disk usage scan is already running.');
+        return;
+    }
+
+    const directories = await joplin.views.dialogs.showOpenDialog({
+        title: `Choose where to save the disk usage ${format.toUpperCase()} file`,
+        properties: ['openDirectory', 'createDirectory'],
+    });
+    if (!directories || !directories.length) { return; }
+
+    const usage = await collectUsage();
+    const rows = exportRows(usage);
+
+    // The CSV has no room for the incomplete flag of the JSON, so partial data
+    // is marked in the file name of both
+    const date = new Date().toISOString().slice(0, 10);
+    const baseName = `joplin-disk-usage-${date}${usage.incomplete ? '-incomplete' : ''}`;
+    const filePath = await availableFilePath(directories[0], baseName, format);
+    await fs.writeFile(filePath, format === 'csv' ? toCsv(rows) : toJson(usage, rows), { encoding: 'utf8', flag: 'wx' });
+
+    let incompleteNote = usage.incomplete ? ' The scan was cancelled, so the data is incomplete.' : '';
+    await joplin.views.dialogs.showMessageBox(`Disk usage data saved to ${filePath}.${incompleteNote}`);
+}
+
+// Adds a number to the file name when a file of that name exists, e.g. after
+// a second export on the same day, instead of overwriting it
+async function availableFilePath(directory, baseName, extension) {
+    for (let index = 1; ; index++) {
+        const fileName = index === 1 ? `${baseName}.${extension}` : `${baseName}-${index}.${extension}`;
+        const filePath = path.join(directory, fileName);
+        try {
+            await fs.access(filePath);
+        } catch (error) {
+            return filePath;
+        }
+    }
+}
+
+export async function registerExport() {
+    await joplin.commands.register({
+        name: 'exportDiskUsageCsv',
+        label: 'Export Disk Usage as CSV',
+        iconName: 'fas fa-file-csv',
+        execute: async () => {
+            await exportUsage('csv');
+        }
+    });
+
+    await joplin.commands.register({
+        name: 'exportDiskUsageJson',
+        label: 'Export Disk Usage as JSON',
+        iconName: 'fas fa-file-code',
+        execute: async () => {
+            await exportUsage('json');
+        }
+    });
+
+    await joplin.views.menuItems.create('exportDiskUsageCsvMenuItem', 'exportDiskUsageCsv', MenuItemLocation.Tools);
+    await joplin.views.menuItems.create('exportDiskUsageJsonMenuItem', 'exportDiskUsageJson', MenuItemLocation.Tools);
+}
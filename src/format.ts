@@ -0,0 +1,56 @@
+import joplin from 'api';
+
+const binaryUnits = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+const decimalUnits = ['B', 'kB', 'MB', 'GB', 'TB'];
+
+// Mirrors the sizeUnits and sizePrecision settings so that formatSize() can stay synchronous
+let sizeFormat = { units: 'binary', precision: 2 };
+
+export async function loadSizeFormatSettings() {
+    sizeFormat = {
+        units: await joplin.settings.value('sizeUnits'),
+        precision: await joplin.settings.value('sizePrecision'),
+    };
+}
+
+// Formats a size in bytes with the largest unit that keeps it above 1, e.g. "3.20 KiB"
+export function formatSize(sizeInBytes) {
+    const base = sizeFormat.units === 'decimal' ? 1000 : 1024;
+    const units = sizeFormat.units === 'decimal' ? decimalUnits : binaryUnits;
+
+    // The unit is picked from the rounded value, so that 1023.999 KiB shows as
+    // "1.00 MiB" rather than "1024.00 KiB"
+    const rounded = (size, unitIndex) => unitIndex ? Number(size.toFixed(sizeFormat.precision)) : Math.round(size);
+
+    let size = sizeInBytes;
+    let unitIndex = 0;
+    while (Math.abs(rounded(size, unitIndex)) >= base && unitIndex < units.length - 1) {
+        size /= base;
+        unitIndex++;
+    }
+
+    if (!unitIndex) {
+        return `${Math.round(size)} ${units[0]}`;
+    }
+    return `${size.toFixed(sizeFormat.precision)} ${units[unitIndex]}`;
+}
+
+// Converts a size entered in the settings to bytes. The settings are always in
+// MiB, whatever units the sizes are shown in.
+export function mebibytesToBytes(mebibytes) {
+    return mebibytes * 1024 * 1024;
+}
+
+// Escapes the pipes of a title put in a Markdown table cell, which would
+// otherwise end the cell
+export function escapeTableCell(text) {
+    return String(text).replace(/\|/g, '\\|');
+}
+
+export function escapeHtml(text) {
+    return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
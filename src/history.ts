@@ -0,0 +1,97 @@
+import joplin from 'api';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { formatSize, escapeTableCell } from './format';
+
+// Older snapshots are dropped once there are more than this
+const maxSnapshots = 200;
+
+async function snapshotsPath() {
+    return path.join(await joplin.plugins.dataDir(), 'snapshots.json');
+}
+
+export async function loadSnapshots() {
+    try {
+        return JSON.parse(await fs.readFile(await snapshotsPath(), 'utf8'));
+    } catch (error) {
+        return []; // No report has been created yet
+    }
+}
+
+export async function saveSnapshot(snapshots, snapshot) {
+    const updated = snapshots.concat([snapshot]).slice(-maxSnapshots);
+    await fs.writeFile(await snapshotsPath(), JSON.stringify(updated), 'utf8');
+}
+
+// Keeps only the totals of a scan: grand total, resource count and the
+// cumulative size of each notebook
+export function createSnapshot(usage) {
+    let notebooks = {};
+    for (let notebookId of Object.keys(usage.cumulativeSizes)) {
+        if (usage.cumulativeSizes[notebookId]) {
+            notebooks[notebookId] = usage.cumulativeSizes[notebookId];
+        }
+    }
+
+    return {
+        time: Date.now(),
+        total: usage.totalSize,
+        resourceCount: usage.resources.length,
+        notebooks: notebooks,
+    };
+}
+
+function formatDelta(delta) {
+    return delta < 0 ? `-${formatSize(-delta)}` : `+${formatSize(delta)}`;
+}
+
+function formatDate(time) {
+    return new Date(time).toLocaleDateString();
+}
+
+// Renders the "Growth since last report" and trend sections, comparing the
+// current snapshot with the previous ones
+export function renderHistory(usage, snapshots, snapshot, trendCount) {
+    if (!snapshots.length) { return ''; }
+
+    const previous = snapshots[snapshots.length - 1];
+    let content = `## 📈 Growth since last report (${formatDate(previous.time)})\n\n`;
+    content += `- **Total:** ${formatDelta(snapshot.total - previous.total)} (${formatSize(previous.total)} → ${formatSize(snapshot.total)})\n`;
+    content += `- **Resources:** ${snapshot.resourceCount - previous.resourceCount >= 0 ? '+' : ''}${snapshot.resourceCount - previous.resourceCount} (${previous.resourceCount} → ${snapshot.resourceCount})\n\n`;
+
+    let notebookIds = Object.keys(Object.assign({}, previous.notebooks, snapshot.notebooks));
+    let changes = notebookIds
+    .filter(notebookId => usage.notebookNames[notebookId] !== undefined)
+    .map(notebookId => ({ id: notebookId, delta: (snapshot.notebooks[notebookId] || 0) - (previous.notebooks[notebookId] || 0) }))
+    .filter(change => change.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    if (changes.length) {
+        content += `| Notebook | Change | Now |\n`;
+        content += `|---|---|---|\n`;
+        for (let change of changes) {
+            content += `| ${escapeTableCell(usage.notebookNames[change.id])} | ${formatDelta(change.delta)} | ${formatSize(snapshot.notebooks[change.id] || 0)} |\n`;
+        }
+        content += `\n`;
+    } else {
+        content += `No notebook changed size.\n\n`;
+    }
+
+    // Trend of the top-level notebooks over the last snapshots, oldest first
+    const trend = snapshots.slice(Math.max(0, snapshots.length - (trendCount - 1))).concat([snapshot]);
+    const topLevel = (usage.childFolders[''] || [])
+    .filter(notebookId => usage.cumulativeSizes[notebookId] > 0)
+    .sort((a, b) => usage.cumulativeSizes[b] - usage.cumulativeSizes[a]);
+
+    if (trend.length > 1 && topLevel.length) {
+        content += `## 📊 Trend over the last ${trend.length} reports\n\n`;
+        content += `| Notebook | ${trend.map(s => formatDate(s.time)).join(' | ')} |\n`;
+        content += `|---|${trend.map(() => '---').join('|')}|\n`;
+        for (let notebookId of topLevel) {
+            content += `| ${escapeTableCell(usage.notebookNames[notebookId])} | ${trend.map(s => s.notebooks[notebookId] ? formatSize(s.notebooks[notebookId]) : '-').join(' | ')} |\n`;
+        }
+        content += `| **Total** | ${trend.map(s => formatSize(s.total)).join(' | ')} |\n\n`;
+    }
+
+    return content;
+}
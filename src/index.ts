@@ -1,15 +1,37 @@
 import joplin from 'api';
-import { ToolbarButtonLocation, SettingItemType } from 'api/types';
+import { ToolbarButtonLocation, SettingItemType, MenuItemLocation } from 'api/types';
+import { formatSize, mebibytesToBytes, escapeTableCell, escapeHtml, loadSizeFormatSettings } from './format';
+import { collectUsage, resourceCategories, localStates, extractLinkedIds, textSize, fetchAll, fetchResourcesWithNotes, fetchNotesWithTextSize, isUnreferenced, sortedChildren, isScanRunning, cancelScan, formatProgress } from './usage';
+import { registerPanel } from './panel';
+import { loadSnapshots, saveSnapshot, createSnapshot, renderHistory } from './history';
+import { registerSchedule } from './schedule';
+import { checkQuotas } from './quota';
+import { registerExport } from './export';
+import { registerCompress } from './compress';
+import { registerNoteList } from './noteList';
 
 joplin.plugins.register({
     onStart: async function() {
         const resources = await joplin.data.get(['resources']);
         await settings();
         await registerTrash();
+        await registerCleanup();
+        await registerEmptyTrash();
         await registerGetSpace();
+        await registerPanel();
+        await registerExport();
+        await registerCompress();
+        await registerSchedule(() => getSpace(false));
+        await registerNoteList();
     },
 });
 
+const attributionPolicies = {
+    full: 'Count fully in every notebook',
+    split: 'Split evenly between the notebooks',
+    first: 'Count only in the notebook of its oldest note',
+};
+
 async function settings() {
     await joplin.settings.registerSection('myPluginSettings', {
         label: 'Disk Usage Settings',
@@ -24,6 +46,171 @@ async function settings() {
             section: 'myPluginSettings',
             label: 'Show Delete Button',
             description: 'Toggle whether to show the Send to Trash button in the editor toolbar.',
+        },
+        cleanupMinSize: {
+            type: SettingItemType.Int,
+            value: 10,
+            minimum: 0,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Cleanup: large resource size (MiB)',
+            description: 'Resources at least this big are offered in the Clean Up Resources dialog, in addition to unreferenced ones.',
+        },
+        compressMinSize: {
+            type: SettingItemType.Int,
+            value: 2,
+            minimum: 0,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Compress images: minimum size (MiB)',
+            description: 'Images at least this big are handled by the Compress Large Images command.',
+        },
+        compressMaxDimension: {
+            type: SettingItemType.Int,
+            value: 1920,
+            minimum: 100,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Compress images: maximum width or height (px)',
+        },
+        compressQuality: {
+            type: SettingItemType.Int,
+            value: 80,
+            minimum: 1,
+            maximum: 100,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Compress images: JPEG quality',
+        },
+        attributionPolicy: {
+            type: SettingItemType.String,
+            value: 'full',
+            isEnum: true,
+            options: attributionPolicies,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Shared resources',
+            description: 'How a resource linked from notes in several notebooks is counted in the notebook totals. The grand total always counts it once.',
+        },
+        sizeUnits: {
+            type: SettingItemType.String,
+            value: 'binary',
+            isEnum: true,
+            options: {
+                binary: 'Binary (KiB, MiB, GiB)',
+                decimal: 'Decimal (kB, MB, GB)',
+            },
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Size units',
+        },
+        sizePrecision: {
+            type: SettingItemType.Int,
+            value: 2,
+            minimum: 0,
+            maximum: 4,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Size precision',
+            description: 'Number of decimals shown for sizes.',
+        },
+        topCount: {
+            type: SettingItemType.Int,
+            value: 10,
+            minimum: 1,
+            maximum: 100,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Items in top lists',
+            description: 'Number of resources and notes listed in the summary at the top of the report and in the largest notes list.',
+        },
+        reportAccelerator: {
+            type: SettingItemType.String,
+            value: 'CmdOrCtrl+Shift+U',
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Report keyboard shortcut',
+            description: 'Shortcut for Tools > Create Disk Usage Report, e.g. CmdOrCtrl+Shift+U. Leave empty for none. Requires a restart.',
+        },
+        reportNotebook: {
+            type: SettingItemType.String,
+            value: '',
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Report notebook',
+            description: 'Title or ID of the notebook the report note is created in. It is created if it does not exist. Leave empty to use the selected notebook.',
+        },
+        trendSnapshotCount: {
+            type: SettingItemType.Int,
+            value: 6,
+            minimum: 2,
+            maximum: 24,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Reports shown in the trend table',
+            description: 'Number of reports, including the current one, compared in the per-notebook trend table.',
+        },
+        quotaGlobal: {
+            type: SettingItemType.Int,
+            value: 0,
+            minimum: 0,
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Notebook quota (MiB)',
+            description: 'Flag top-level notebooks bigger than this, including their sub-notebooks. 0 disables it.',
+        },
+        quotaNotebooks: {
+            type: SettingItemType.String,
+            value: '',
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Per-notebook quotas',
+            description: 'JSON object of notebook title or ID to quota in MiB, e.g. {"Projects": 500}. Overrides the notebook quota above and applies to sub-notebooks too.',
+        },
+        scheduleInterval: {
+            type: SettingItemType.String,
+            value: 'off',
+            isEnum: true,
+            options: {
+                off: 'Off',
+                daily: 'Daily',
+                weekly: 'Weekly',
+            },
+            public: true,
+            section: 'myPluginSettings',
+            label: 'Automatic reports',
+            description: 'Regenerate the report note in the background at this interval.',
+        },
+        lastReportTime: {
+            type: SettingItemType.Int,
+            value: 0,
+            public: false,
+            label: 'Last report time',
+        },
+        lastTrashedNotes: {
+            type: SettingItemType.String,
+            value: '',
+            public: false,
+            label: 'Last trashed notes',
+        },
+        reportNoteId: {
+            type: SettingItemType.String,
+            value: '',
+            public: false,
+            label: 'Report note ID',
+        },
+        scopedReportNoteId: {
+            type: SettingItemType.String,
+            value: '',
+            public: false,
+            label: 'Scoped report note ID',
+        },
+    });
+
+    await loadSizeFormatSettings();
+    await joplin.settings.onChange(async (event) => {
+        if (event.keys.includes('sizeUnits') || event.keys.includes('sizePrecision')) {
+            await loadSizeFormatSettings();
         }
     });
 }
@@ -33,23 +220,64 @@ async function registerTrash() {
     const show = await joplin.settings.value('showDeleteButton');
     if (!show) { return; }
 
+    const dialog = await joplin.views.dialogs.create('trashNoteDialog');
+
     await joplin.commands.register({
         name: 'sendCurrentNoteToTrash',
-        label: 'Send Current Note to Trash',
+        label: 'Send Selected Notes to Trash',
         iconName: 'fas fa-trash',
         execute: async () => {
-            const note = await joplin.workspace.selectedNote();
-            if (note) {
-                // Move the note to the trash by setting is_conflict to 1
-                await joplin.data.delete(['notes', note.id]);
+            const noteIds = await joplin.workspace.selectedNoteIds();
+            if (noteIds.length) {
+                let notes = [];
+                for (let noteId of noteIds) {
+                    notes.push(await joplin.data.get(['notes', noteId], { fields: ['id', 'title', 'parent_id', 'body'] }));
+                }
+
+                const exclusive = await exclusiveResources(notes);
+                const choice = exclusive.length ? await confirmTrash(dialog, exclusive, notes.length) : 'noteOnly';
+                if (!choice) { return; }
+
+                // Move the notes to the trash
+                for (let note of notes) {
+                    await joplin.data.delete(['notes', note.id]);
+                }
+                await joplin.settings.setValue('lastTrashedNotes', JSON.stringify(notes.map(note => ({ id: note.id, parent_id: note.parent_id }))));
+
+                // Resources have no trash, so these are gone for good
+                if (choice === 'withAttachments') {
+                    for (let resource of exclusive) {
+                        await joplin.data.delete(['resources', resource.id]);
+                    }
+                }
+
                 await joplin.commands.execute('focusElementNoteList');
                 await joplin.commands.execute('editor.focus');  // Focus back on the editor
+
+                let trashedSize = notes.reduce((total, note) => total + textSize(note.body), 0);
+                trashedSize += exclusive.reduce((total, resource) => total + resource.size, 0);
+                let attachmentsNote = choice === 'withAttachments' ? ` ${exclusive.length} attachment(s) were deleted and cannot be restored.` : '';
+                await joplin.views.dialogs.showMessageBox(
+                    `Sent ${notes.length} note(s) to the trash (${formatSize(trashedSize)} including the attachments only they use).${attachmentsNote}\n\n` +
+                    `Use "Restore Last Trashed Notes" to bring them back.`
+                );
             } else {
                 console.warn('No note is currently selected.');
             }
         }
     });
 
+    await joplin.commands.register({
+        name: 'restoreLastTrashedNotes',
+        label: 'Restore Last Trashed Notes',
+        iconName: 'fas fa-trash-restore',
+        execute: async () => {
+            await restoreLastTrashedNotes();
+        }
+    });
+
+    await joplin.views.menuItems.create('restoreLastTrashedNotesMenuItem', 'restoreLastTrashedNotes', MenuItemLocation.Tools);
+
     // Create a toolbar button with a trash bin icon
     await joplin.views.toolbarButtons.create(
         'sendToTrashButton',            // Unique button ID
@@ -58,6 +286,272 @@ async function registerTrash() {
     );
 }
 
+// Brings the notes trashed by the last use of sendCurrentNoteToTrash back
+// to the notebooks they were in
+async function restoreLastTrashedNotes() {
+    const trashedNotes = JSON.parse((await joplin.settings.value('lastTrashedNotes')) || '[]');
+    if (!trashedNotes.length) {
+        await joplin.views.dialogs.showMessageBox('There are no trashed notes to restore.');
+        return;
+    }
+
+    let restoredCount = 0;
+    for (let note of trashedNotes) {
+        try {
+            await joplin.data.put(['notes', note.id], null, { deleted_time: 0, parent_id: note.parent_id });
+            restoredCount++;
+        } catch (error) {
+            console.warn(`Could not restore note ${note.id}:`, error); // Permanently deleted since
+        }
+    }
+
+    await joplin.settings.setValue('lastTrashedNotes', '');
+    await joplin.views.dialogs.showMessageBox(`Restored ${restoredCount} of ${trashedNotes.length} note(s).`);
+}
+
+// Resources linked from the given notes that no other note uses, which would
+// be left unreferenced once these notes are trashed. Only the resources these
+// notes link to are fetched, and the notes linking to each one, including those
+// in the trash, are found by searching for its ID and checking their bodies,
+// rather than from Joplin's note/resource index which is updated after a delay.
+async function exclusiveResources(notes) {
+    let noteIds = notes.map(note => note.id);
+    let linkedIds = new Set<string>();
+    for (let note of notes) {
+        for (let linkedId of extractLinkedIds(note.body)) {
+            linkedIds.add(linkedId);
+        }
+    }
+
+    let exclusive = [];
+    for (let linkedId of linkedIds) {
+        let resource;
+        try {
+            resource = await joplin.data.get(['resources', linkedId], { fields: ['id', 'title', 'size'] });
+        } catch (error) {
+            continue; // A link to a note rather than a resource
+        }
+
+        const linkingNotes = await fetchNotesWithTextSize(null, ['search'], { query: linkedId, type: 'note', include_deleted: 1 });
+        if (linkingNotes.every(note => noteIds.includes(note.id) || !note.linkedIds.includes(linkedId))) {
+            exclusive.push(resource);
+        }
+    }
+
+    return exclusive.sort((a, b) => b.size - a.size);
+}
+
+// Asks whether the attachments used only by the trashed notes should be
+// deleted too. Returns 'noteOnly', 'withAttachments' or null if cancelled.
+async function confirmTrash(dialog, exclusive, noteCount) {
+    let totalSize = exclusive.reduce((total, resource) => total + resource.size, 0);
+    let rows = exclusive.map(resource => `<tr><td>${escapeHtml(resource.title || 'Untitled')}</td><td>${formatSize(resource.size)}</td></tr>`);
+
+    await joplin.views.dialogs.setHtml(dialog, `
+        <h3>Send to Trash</h3>
+        <p>These attachments are not used by any other note than the ${noteCount} note(s) being trashed (${formatSize(totalSize)} in total).
+        Attachments shared with other notes are always kept.</p>
+        <table>
+            <tr><th>Title</th><th>Size</th></tr>
+            ${rows.join('')}
+        </table>
+        <p>Deleted attachments do not go to the trash and cannot be restored.</p>
+    `);
+    await joplin.views.dialogs.setButtons(dialog, [
+        { id: 'noteOnly', title: noteCount > 1 ? 'Trash notes only' : 'Trash note only' },
+        { id: 'withAttachments', title: noteCount > 1 ? 'Trash notes and their exclusive attachments' : 'Trash note and its exclusive attachments' },
+        { id: 'cancel' },
+    ]);
+
+    const result = await joplin.views.dialogs.open(dialog);
+    return result.id === 'cancel' ? null : result.id;
+}
+
+async function registerCleanup() {
+    const dialog = await joplin.views.dialogs.create('cleanupResourcesDialog');
+
+    await joplin.commands.register({
+        name: 'cleanupResources',
+        label: 'Clean Up Resources',
+        iconName: 'fas fa-broom',
+        execute: async () => {
+            await cleanupResources(dialog);
+        }
+    });
+
+    await joplin.views.menuItems.create('cleanupResourcesMenuItem', 'cleanupResources', MenuItemLocation.Tools);
+}
+
+async function cleanupResources(dialog) {
+    const minSize = mebibytesToBytes(await joplin.settings.value('cleanupMinSize'));
+
+    let resources = await fetchResourcesWithNotes();
+    let candidates = resources
+    .filter(resource => isUnreferenced(resource) || resource.size >= minSize)
+    .sort((a, b) => b.size - a.size);
+
+    if (!candidates.length) {
+        await joplin.views.dialogs.showMessageBox('There are no unreferenced or large resources to clean up.');
+        return;
+    }
+
+    let rows = '';
+    for (let resource of candidates) {
+        // Only unreferenced resources are pre-selected, large ones are still in use
+        let used = resource.notes.length ? `used by ${resource.notes.length} note(s)` : 'unreferenced';
+        if (!resource.notes.length && resource.trashedNotes.length) {
+            used = `used by ${resource.trashedNotes.length} note(s) in the trash`;
+        }
+        rows += `<tr>
+            <td><input type="checkbox" name="${resource.id}" value="1" ${isUnreferenced(resource) ? 'checked' : ''}></td>
+            <td>${escapeHtml(resource.title || 'Untitled')}</td>
+            <td>${escapeHtml(resource.mime || '')}</td>
+            <td>${formatSize(resource.size)}</td>
+            <td>${used}</td>
+        </tr>`;
+    }
+
+    await joplin.views.dialogs.setHtml(dialog, `
+        <h3>Clean Up Resources</h3>
+        <p>Select the resources to delete. Resources still used by notes will leave broken links behind.</p>
+        <form name="resources">
+            <table>
+                <tr><th></th><th>Title</th><th>Type</th><th>Size</th><th>Status</th></tr>
+                ${rows}
+            </table>
+        </form>
+    `);
+    await joplin.views.dialogs.setButtons(dialog, [
+        { id: 'delete', title: 'Delete selected' },
+        { id: 'cancel' },
+    ]);
+
+    const result = await joplin.views.dialogs.open(dialog);
+    if (result.id !== 'delete') { return; }
+
+    let selectedIds = Object.keys((result.formData && result.formData.resources) || {});
+    let selected = candidates.filter(resource => selectedIds.includes(resource.id));
+    if (!selected.length) { return; }
+
+    let freedSize = selected.reduce((total, resource) => total + resource.size, 0);
+    const answer = await joplin.views.dialogs.showMessageBox(
+        `Permanently delete ${selected.length} resource(s), freeing ${formatSize(freedSize)}? This cannot be undone.`
+    );
+    if (answer !== 0) { return; }
+
+    for (let resource of selected) {
+        await joplin.data.delete(['resources', resource.id]);
+    }
+
+    await joplin.views.dialogs.showMessageBox(`Deleted ${selected.length} resource(s), freed ${formatSize(freedSize)}.`);
+}
+
+async function registerEmptyTrash() {
+    const dialog = await joplin.views.dialogs.create('emptyTrashDialog');
+
+    await joplin.commands.register({
+        name: 'deleteHeavyTrashedNotes',
+        label: 'Permanently Delete Heavy Trashed Notes',
+        iconName: 'fas fa-dumpster',
+        execute: async () => {
+            if (isScanRunning()) {
+                await joplin.views.dialogs.showMessageBox('A disk usage scan is already running.');
+                return;
+            }
+            await deleteTrashedNotes(dialog);
+        }
+    });
+
+    await joplin.views.menuItems.create('deleteHeavyTrashedNotesMenuItem', 'deleteHeavyTrashedNotes', MenuItemLocation.Tools);
+}
+
+// Lets the user pick notes in the trash, biggest first, and deletes them for
+// good along with the resources that only notes in the trash use. The dialog
+// opens right away with the scan progress, and closing it cancels the scan.
+async function deleteTrashedNotes(dialog) {
+    await joplin.views.dialogs.setHtml(dialog, `<h3>Permanently Delete Trashed Notes</h3><p>Looking for notes in the trash...</p>`);
+    await joplin.views.dialogs.setButtons(dialog, [{ id: 'cancel' }]);
+
+    let scanning = true;
+    const opened = joplin.views.dialogs.open(dialog).then(result => {
+        if (scanning) {
+            cancelScan();
+        }
+        return result;
+    });
+
+    let lastProgressUpdate = 0;
+    const usage = await collectUsage(async (progress) => {
+        if (Date.now() - lastProgressUpdate < 1000) { return; }
+        lastProgressUpdate = Date.now();
+
+        await joplin.views.dialogs.setHtml(dialog, `<h3>Permanently Delete Trashed Notes</h3><p>Looking for notes in the trash...</p><p>${escapeHtml(formatProgress(progress))}</p>`);
+    });
+    scanning = false;
+    if (usage.incomplete) { return; }
+
+    let candidates = usage.trashedNotes
+    .slice()
+    .sort((a, b) => b.trashSize - a.trashSize);
+
+    if (!candidates.length) {
+        await joplin.views.dialogs.setHtml(dialog, `<h3>Permanently Delete Trashed Notes</h3><p>The trash is empty.</p>`);
+        await joplin.views.dialogs.setButtons(dialog, [{ id: 'ok', title: 'Close' }]);
+        await opened;
+        return;
+    }
+
+    let rows = '';
+    for (let note of candidates) {
+        rows += `<tr>
+            <td><input type="checkbox" name="${note.id}" value="1"></td>
+            <td>${escapeHtml(note.title || 'Untitled Note')}</td>
+            <td>${new Date(note.deleted_time).toLocaleString()}</td>
+            <td>${note.trashResources.length}</td>
+            <td>${formatSize(note.trashSize)}</td>
+        </tr>`;
+    }
+
+    await joplin.views.dialogs.setHtml(dialog, `
+        <h3>Permanently Delete Trashed Notes</h3>
+        <p>Select the notes to delete for good. Attachments used only by notes in the trash go with them, unless another note in the trash that is kept still uses them.</p>
+        <form name="notes">
+            <table>
+                <tr><th></th><th>Title</th><th>Deleted</th><th>Attachments</th><th>Size</th></tr>
+                ${rows}
+            </table>
+        </form>
+    `);
+    await joplin.views.dialogs.setButtons(dialog, [
+        { id: 'delete', title: 'Delete selected' },
+        { id: 'cancel' },
+    ]);
+
+    const result = await opened;
+    if (result.id !== 'delete') { return; }
+
+    let selectedIds = Object.keys((result.formData && result.formData.notes) || {});
+    let selected = candidates.filter(note => selectedIds.includes(note.id));
+    if (!selected.length) { return; }
+
+    let resources = usage.trashResources.filter(resource => resource.trashedNotes.every(note => selectedIds.includes(note.id)));
+    let freedSize = selected.reduce((total, note) => total + note.textSize, 0);
+    freedSize += resources.reduce((total, resource) => total + resource.size, 0);
+
+    const answer = await joplin.views.dialogs.showMessageBox(
+        `Permanently delete ${selected.length} note(s) and ${resources.length} attachment(s), freeing ${formatSize(freedSize)}? This cannot be undone.`
+    );
+    if (answer !== 0) { return; }
+
+    for (let note of selected) {
+        await joplin.data.delete(['notes', note.id], { permanent: 1 });
+    }
+    for (let resource of resources) {
+        await joplin.data.delete(['resources', resource.id]);
+    }
+
+    await joplin.views.dialogs.showMessageBox(`Deleted ${selected.length} note(s) and ${resources.length} attachment(s), freed ${formatSize(freedSize)}.`);
+}
 
 async function registerGetSpace() {
 
@@ -70,130 +564,447 @@ async function registerGetSpace() {
         }
     });
 
+    await joplin.commands.register({
+        name: 'createDiskUsageReportForFolder',
+        label: 'Create Disk Usage Report for Notebook',
+        iconName: 'fas fa-chart-pie',
+        execute: async (folderId = null) => {
+            const folder = folderId ? await joplin.data.get(['folders', folderId], { fields: ['id', 'title'] }) : await joplin.workspace.selectedFolder();
+            if (!folder) { return; }
+            await getSpace(true, { type: 'folder', folderId: folder.id, label: `notebook "${folder.title}" and its sub-notebooks` });
+        }
+    });
+
+    await joplin.commands.register({
+        name: 'createDiskUsageReportForNotes',
+        label: 'Create Disk Usage Report for Selected Notes',
+        iconName: 'fas fa-chart-pie',
+        execute: async (noteIds = null) => {
+            noteIds = noteIds || await joplin.workspace.selectedNoteIds();
+            if (!noteIds.length) { return; }
+            await getSpace(true, { type: 'notes', noteIds: noteIds, label: `${noteIds.length} selected note(s)` });
+        }
+    });
+
+    const searchDialog = await joplin.views.dialogs.create('diskUsageSearchDialog');
+    await joplin.views.dialogs.setHtml(searchDialog, `
+        <h3>Disk Usage Report for Search</h3>
+        <form name="search">
+            <p>Only the notes matching this Joplin search query will be scanned.</p>
+            <input type="text" name="query" autofocus style="width: 100%">
+        </form>
+    `);
+    await joplin.views.dialogs.setButtons(searchDialog, [
+        { id: 'ok', title: 'Create report' },
+        { id: 'cancel' },
+    ]);
+
+    await joplin.commands.register({
+        name: 'createDiskUsageReportForSearch',
+        label: 'Create Disk Usage Report for Search',
+        iconName: 'fas fa-search',
+        execute: async () => {
+            const result = await joplin.views.dialogs.open(searchDialog);
+            const query = result.id === 'ok' ? result.formData.search.query.trim() : '';
+            if (!query) { return; }
+            await getSpace(true, { type: 'search', query: query, label: `notes matching "${query}"` });
+        }
+    });
+
+    await joplin.commands.register({
+        name: 'cancelDiskUsageScan',
+        label: 'Cancel disk usage scan',
+        iconName: 'fas fa-stop',
+        execute: async () => {
+            if (!cancelScan()) {
+                await joplin.views.dialogs.showMessageBox('No disk usage scan is running.');
+            }
+        }
+    });
+
     // Add the button to the toolbar
     await joplin.views.toolbarButtons.create('createDiskUsageReportButton', 'createDiskUsageReport', ToolbarButtonLocation.EditorToolbar);
 
-}
+    const accelerator = (await joplin.settings.value('reportAccelerator')).trim();
+    await joplin.views.menuItems.create('createDiskUsageReportMenuItem', 'createDiskUsageReport', MenuItemLocation.Tools, accelerator ? { accelerator } : undefined);
 
-async function createTempNote() {
-    const currentFolder = await joplin.workspace.selectedFolder();
+    // The notebook context menu passes the right-clicked notebook ID, and the
+    // note list one the selected note IDs
+    await joplin.views.menuItems.create('createDiskUsageReportForFolderMenuItem', 'createDiskUsageReportForFolder', MenuItemLocation.FolderContextMenu);
+    await joplin.views.menuItems.create('createDiskUsageReportForNotesMenuItem', 'createDiskUsageReportForNotes', MenuItemLocation.NoteListContextMenu);
 
-    const newNote = await joplin.data.post(['notes'], null, {
-        title: 'Joplin Disk Usage Report',
-        parent_id: currentFolder.id,
-        body: 'Wait ... processing'
-    });
-    await joplin.commands.execute('openNote', newNote.id);
-    return newNote;
 }
 
-async function getSpace() {
-    function formatSize(sizeInBytes) {
-        return (sizeInBytes / (1024 * 1024)).toFixed(2); // Convert to MB and round to 2 decimal places
+// Returns the notebook the report should be created in: the one named in the
+// reportNotebook setting (created if needed), or else the selected one
+async function reportFolderId() {
+    const name = (await joplin.settings.value('reportNotebook')).trim();
+    if (!name) {
+        const currentFolder = await joplin.workspace.selectedFolder();
+        return currentFolder.id;
     }
 
-    const newNote = await createTempNote();
+    const folders = await fetchAll(['folders'], ['id', 'title']);
+    const folder = folders.find(f => f.id === name || f.title === name);
+    if (folder) { return folder.id; }
 
-    let page = 1;
-    let resources = [];
-    let pageSize = 100;
-    let response;
+    const newFolder = await joplin.data.post(['folders'], null, { title: name });
+    return newFolder.id;
+}
+
+// Reuses the report note from the previous run when it still exists, so that
+// each run overwrites it instead of leaving stale reports around. Scoped
+// reports get a note of their own so they don't replace the full report.
+async function createTempNote(open = true, scoped = false) {
+    const noteIdKey = scoped ? 'scopedReportNoteId' : 'reportNoteId';
+    const reportNoteId = await joplin.settings.value(noteIdKey);
+
+    let existingNote = null;
+    if (reportNoteId) {
+        try {
+            existingNote = await joplin.data.get(['notes', reportNoteId], { fields: ['id', 'deleted_time'] });
+        } catch (error) {
+            existingNote = null; // Permanently deleted
+        }
+    }
 
-    do {
-        response = await joplin.data.get(['resources'], {
-            fields: ['id', 'size', 'title'], // Fetch size and title explicitly
-            page: page,
-            limit: pageSize
+    let newNote;
+    if (existingNote && !existingNote.deleted_time) {
+        await joplin.data.put(['notes', existingNote.id], null, {
+            body: 'Wait ... processing'
+        });
+        newNote = existingNote;
+    } else {
+        newNote = await joplin.data.post(['notes'], null, {
+            title: scoped ? 'Joplin Disk Usage Report (Scoped)' : 'Joplin Disk Usage Report',
+            parent_id: await reportFolderId(),
+            body: 'Wait ... processing'
         });
-        resources = resources.concat(response.items);
-        page++;
-    } while (response.has_more);
+        await joplin.settings.setValue(noteIdKey, newNote.id);
+    }
 
-    let resourceData = {};
-    let notebookNames = {};
-    let notebookSizes = {}; // Keep track of total sizes for sorting
+    if (open) {
+        await joplin.commands.execute('openNote', newNote.id);
+    }
+    return newNote;
+}
 
-    for (let resource of resources) {
-        let resourceId = resource.id;
-        let resourceSize = resource.size;
-        let resourceTitle = resource.title || 'Untitled';
+// The executive summary at the top of the report: totals, then the biggest
+// resources and the notes with the most attachments
+function renderSummary(usage, topCount) {
+    let resourcesSize = usage.resources.reduce((total, resource) => total + resource.size, 0);
+    let inUseTotal = usage.totalAttachmentSize + usage.totalTextSize;
+    let content = `## 📋 Summary\n\n`;
+    content += `- **Total:** ${formatSize(usage.totalSize)} (attachments: ${formatSize(resourcesSize)}, text: ${formatSize(usage.totalSize - resourcesSize)})\n`;
+    content += `- **In use:** ${formatSize(inUseTotal)} (attachments: ${formatSize(usage.totalAttachmentSize)}, text: ${formatSize(usage.totalTextSize)}), leaving out unreferenced resources and the trash\n`;
+    content += `- **Resources:** ${usage.resources.length}\n`;
+    content += `- **Notes:** ${usage.notes.length}\n`;
+
+    let localSize = usage.localStateSizes.local ? usage.localStateSizes.local.size : 0;
+    if (usage.localStateSizes.unknown) {
+        content += `- **Resources on this device:** unknown, the resource directory could not be read\n\n`;
+    } else {
+        content += `- **Resources on this device:** ${formatSize(localSize)} (${formatSize(resourcesSize - localSize)} not downloaded or still encrypted)\n\n`;
+    }
 
-        let linkedNotes = await joplin.data.get(['resources', resourceId, 'notes'], { fields: ['id', 'title', 'parent_id'] });
+    if (usage.sharedResourceCount) {
+        content += `${usage.sharedResourceCount} resource(s) are shared between notebooks (marked 🔗). `;
+        content += `The total above counts them once, notebook totals use "${attributionPolicies[usage.policy]}".\n\n`;
+    }
 
-        for (let note of linkedNotes.items) {
-            let noteId = note.id;
-            let noteTitle = note.title || 'Untitled Note';
-            let notebookId = note.parent_id;
+    let largestResources = usage.resources
+    .slice()
+    .sort((a, b) => b.size - a.size)
+    .slice(0, topCount);
+
+    if (largestResources.length) {
+        content += `### Largest resources\n\n`;
+        content += `| Resource | Size | Used in |\n`;
+        content += `|---|---|---|\n`;
+        for (let resource of largestResources) {
+            let usedIn = resource.notes.length ? resource.notes.map(note => `[${escapeTableCell(note.title || 'Untitled Note')}](:/${note.id})`).join(', ') : 'Unreferenced';
+            content += `| ${escapeTableCell(resource.title || 'Untitled')} | ${formatSize(resource.size)} | ${usedIn} |\n`;
+        }
+        content += `\n`;
+    }
 
-            if (!notebookNames[notebookId]) {
-                let notebook = await joplin.data.get(['folders', notebookId]);
-                notebookNames[notebookId] = notebook.title;
+    let noteAttachments = {};
+    for (let resource of usage.resources) {
+        for (let note of resource.notes) {
+            if (!noteAttachments[note.id]) {
+                noteAttachments[note.id] = { note: note, size: 0, count: 0 };
             }
+            noteAttachments[note.id].size += resource.size;
+            noteAttachments[note.id].count++;
+        }
+    }
 
-            if (!resourceData[notebookId]) {
-                resourceData[notebookId] = [];
-            }
+    let heaviestNotes = Object.keys(noteAttachments)
+    .map(noteId => noteAttachments[noteId])
+    .sort((a, b) => b.size - a.size)
+    .slice(0, topCount);
+
+    if (heaviestNotes.length) {
+        content += `### Heaviest notes\n\n`;
+        content += `| Note | Notebook | Attachments | Size |\n`;
+        content += `|---|---|---|---|\n`;
+        for (let item of heaviestNotes) {
+            content += `| [${escapeTableCell(item.note.title || 'Untitled Note')}](:/${item.note.id}) | ${escapeTableCell(usage.notebookNames[item.note.parent_id])} | ${item.count} | ${formatSize(item.size)} |\n`;
+        }
+        content += `\n`;
+    }
+
+    return content;
+}
 
-            resourceData[notebookId].push({
-                resourceTitle: resourceTitle,
-                resourceSizeMB: formatSize(resourceSize),
-                resourceSize: resourceSize,
-                noteTitle: noteTitle,
-                noteLink: `:/${noteId}`,
-                noteId: noteId,
-                id: resourceId
+// When not interactive (scheduled reports), the report note is updated
+// without being opened. A scope limits the report to some notes, see
+// collectUsage(); such reports don't count towards the history and quotas.
+async function getSpace(interactive = true, scope = null) {
+    if (isScanRunning()) {
+        if (interactive) {
+            await joplin.views.dialogs.showMessageBox('A disk usage scan is already running.');
+        }
+        return;
+    }
+
+    const newNote = await createTempNote(interactive, !!scope);
+
+    // Write the progress to the report note, at most once a second
+    let lastProgressUpdate = 0;
+    let usage;
+    try {
+        usage = await collectUsage(async (progress) => {
+            if (Date.now() - lastProgressUpdate < 1000) { return; }
+            lastProgressUpdate = Date.now();
+
+            await joplin.data.put(['notes', newNote.id], null, {
+                body: `Wait ... processing\n\n${formatProgress(progress)}\n\nRun "Cancel disk usage scan" from the command palette to stop and get a partial report.`
             });
+        }, { findDuplicates: true, scope: scope });
+    } catch (error) {
+        // Otherwise the note would be left at "Wait ... processing"
+        console.error('Disk usage scan failed:', error);
+        await joplin.data.put(['notes', newNote.id], null, {
+            body: `# Joplin Disk Usage Report\n\n> ⚠️ **The scan failed:** ${error.message}\n`
+        });
+        return;
+    }
+    const { notes, notebookNames, resourceData, unreferencedResources, notebookSizes, notebookTextSizes } = usage;
+    const { cumulativeAttachmentSizes, cumulativeTextSizes, cumulativeSizes } = usage;
 
-            // Track total size of each notebook
-            if (!notebookSizes[notebookId]) {
-                notebookSizes[notebookId] = 0;
-            }
-            notebookSizes[notebookId] += resourceSize;
+    let noteContent = `# Joplin Disk Usage Report\n\n`;
+
+    if (scope) {
+        noteContent += `Scope: ${scope.label}\n\n`;
+    }
+
+    if (usage.incomplete) {
+        noteContent += `> ⚠️ **Incomplete report:** the scan was cancelled during the "${usage.cancelledPhase}" phase, so some notes and resources are missing.\n\n`;
+    }
+
+    const quotas = scope ? { exceeded: [], error: null } : await checkQuotas(usage);
+    if (quotas.error) {
+        noteContent += `> ⚠️ ${quotas.error}\n\n`;
+    }
+    if (quotas.exceeded.length) {
+        noteContent += `## 🚨 Notebooks over quota\n\n`;
+        noteContent += `| Notebook | Size | Quota | Over by |\n`;
+        noteContent += `|---|---|---|---|\n`;
+        for (let item of quotas.exceeded) {
+            noteContent += `| ${escapeTableCell(notebookNames[item.notebookId])} | ${formatSize(item.size)} | ${formatSize(item.quota)} | ${formatSize(item.size - item.quota)} |\n`;
         }
+        noteContent += `\n`;
     }
 
-    // Convert notebookSizes object into an array and sort by size
-    let sortedNotebooks = Object.keys(notebookSizes)
-    .map(notebookId => ({ id: notebookId, size: notebookSizes[notebookId] }))
-    .sort((a, b) => b.size - a.size);
+    const topCount = await joplin.settings.value('topCount');
+    noteContent += renderSummary(usage, topCount);
 
-    let noteContent = `# Joplin Disk Usage Report\n\n[toc]\n\n`;
+    noteContent += `[toc]\n\n`;
 
-    for (let notebook of sortedNotebooks) {
-        let notebookId = notebook.id;
+    const snapshots = await loadSnapshots();
+    const snapshot = createSnapshot(usage);
+    if (!scope) {
+        noteContent += renderHistory(usage, snapshots, snapshot, await joplin.settings.value('trendSnapshotCount'));
+    }
+
+    noteContent += `## 🗂️ Usage by type\n\n`;
+    noteContent += `| Type | Resources | Size |\n`;
+    noteContent += `|---|---|---|\n`;
+    for (let category of Object.keys(resourceCategories)) {
+        let total = usage.categorySizes[category] || { count: 0, size: 0 };
+        noteContent += `| ${resourceCategories[category]} | ${total.count} | ${formatSize(total.size)} |\n`;
+    }
+    noteContent += `\n`;
+
+    let extensions = Object.keys(usage.extensionSizes)
+    .sort((a, b) => usage.extensionSizes[b].size - usage.extensionSizes[a].size)
+    .slice(0, 15);
+    if (extensions.length) {
+        noteContent += `| Extension | Resources | Size |\n`;
+        noteContent += `|---|---|---|\n`;
+        for (let extension of extensions) {
+            noteContent += `| ${escapeTableCell(extension)} | ${usage.extensionSizes[extension].count} | ${formatSize(usage.extensionSizes[extension].size)} |\n`;
+        }
+        noteContent += `\n`;
+    }
+
+    // Left out when the resource directory could not be read, see the summary
+    if (!usage.localStateSizes['unknown']) {
+        noteContent += `## 💾 Storage on this device\n\n`;
+        noteContent += `Resources are only on disk once downloaded by the sync, and stay encrypted until decrypted.\n\n`;
+        noteContent += `| State | Resources | Size |\n`;
+        noteContent += `|---|---|---|\n`;
+        for (let state of Object.keys(localStates).filter(state => state !== 'unknown')) {
+            let total = usage.localStateSizes[state] || { count: 0, size: 0 };
+            noteContent += `| ${localStates[state]} | ${total.count} | ${formatSize(total.size)} |\n`;
+        }
+        noteContent += `\n`;
+    }
+
+    function renderNotebook(notebookId, depth) {
         let notebookName = notebookNames[notebookId];
-        let notebookResources = resourceData[notebookId];
+        let notebookResources = resourceData[notebookId] || [];
         notebookResources.sort((a, b) => b.resourceSize - a.resourceSize);
 
-        let totalNotebookSize = notebook.size;
-
-        noteContent += `## 📓 "${notebookName}" (Total size: ${formatSize(totalNotebookSize)} MB)\n\n`;
+        let heading = '#'.repeat(Math.min(depth + 2, 6));
+        let totalSize = formatSize(cumulativeSizes[notebookId]);
+
+        noteContent += `${heading} 📓 "${notebookName}" (Total size: ${totalSize})\n\n`;
+        noteContent += `| | Attachments | Text |\n`;
+        noteContent += `|---|---|---|\n`;
+        noteContent += `| Own | ${formatSize(notebookSizes[notebookId] || 0)} | ${formatSize(notebookTextSizes[notebookId] || 0)} |\n`;
+        noteContent += `| Including sub-notebooks | ${formatSize(cumulativeAttachmentSizes[notebookId])} | ${formatSize(cumulativeTextSizes[notebookId])} |\n\n`;
+
+        let categorySizes = usage.notebookCategorySizes[notebookId];
+        if (categorySizes) {
+            let byType = Object.keys(resourceCategories)
+            .filter(category => categorySizes[category])
+            .map(category => `${resourceCategories[category]}: ${formatSize(categorySizes[category].size)}`);
+            noteContent += `**Attachments by type:** ${byType.join(' · ')}\n\n`;
+        }
 
         let printedResources = new Set();
 
         for (let resource of notebookResources) {
-            if (!printedResources.has(resource.resourceTitle)) {
-                noteContent += `- **Resource**: "${resource.resourceTitle}"\n`;
-                noteContent += `  - **Size:** ${resource.resourceSizeMB} MB\n`;
+            if (!printedResources.has(resource.id)) {
+                let sharedNote = resource.shared ? ` 🔗 shared by ${resource.notebookCount} notebooks` : '';
+                let countedNote = resource.attributedSize !== resource.resourceSize ? ` (counted here: ${formatSize(resource.attributedSize)})` : '';
+                if (resource.shared && !resource.attributedSize) {
+                    countedNote = ` (counted in "${notebookNames[resource.ownerNotebookId]}")`;
+                }
+
+                noteContent += `- **Resource**: "${resource.resourceTitle}"${sharedNote}\n`;
+                noteContent += `  - **Size:** ${formatSize(resource.resourceSize)}${countedNote}\n`;
                 noteContent += `  - **ID:** ${resource.id}\n`;
 
                 for (let note of notebookResources.filter(r => r.id === resource.id)) {
                     noteContent += `  - [${note.noteTitle}](${note.noteLink})\n`;
                 }
 
-                printedResources.add(resource.resourceTitle);
+                printedResources.add(resource.id);
                 noteContent += `\n`;
             }
         }
+
+        for (let childId of sortedChildren(usage, notebookId)) {
+            renderNotebook(childId, depth + 1);
+        }
+    }
+
+    for (let notebookId of sortedChildren(usage, '')) {
+        renderNotebook(notebookId, 0);
+    }
+
+    let largestNotes = notes
+    .filter(note => note.textSize > 0 && note.id !== newNote.id)
+    .sort((a, b) => b.textSize - a.textSize)
+    .slice(0, topCount);
+
+    if (largestNotes.length) {
+        noteContent += `## 📝 Largest notes by text size\n\n`;
+        noteContent += `| Note | Notebook | Format | Text size |\n`;
+        noteContent += `|---|---|---|---|\n`;
+        for (let note of largestNotes) {
+            let notebookName = notebookNames[note.parent_id];
+            noteContent += `| [${escapeTableCell(note.title || 'Untitled Note')}](:/${note.id}) | ${escapeTableCell(notebookName)} | ${note.isHtml ? 'HTML' : 'Markdown'} | ${formatSize(note.textSize)} |\n`;
+        }
+        noteContent += `\n`;
+    }
+
+    if (usage.trashedNotes.length) {
+        let heaviestTrashed = usage.trashedNotes
+        .slice()
+        .sort((a, b) => b.trashSize - a.trashSize)
+        .slice(0, topCount);
+
+        noteContent += `## 🚮 Trash (Held: ${formatSize(usage.totalTrashSize)})\n\n`;
+        noteContent += `${usage.trashedNotes.length} note(s) in the trash and ${usage.trashResources.length} attachment(s) only they use. `;
+        noteContent += `Emptying the trash, or "Permanently Delete Heavy Trashed Notes" for some of them, frees this space.\n\n`;
+        noteContent += `| Note | Deleted | Attachments | Size |\n`;
+        noteContent += `|---|---|---|---|\n`;
+        for (let note of heaviestTrashed) {
+            noteContent += `| [${escapeTableCell(note.title || 'Untitled Note')}](:/${note.id}) | ${new Date(note.deleted_time).toLocaleString()} | ${note.trashResources.length} | ${formatSize(note.trashSize)} |\n`;
+        }
+        noteContent += `\n`;
+    }
+
+    if (unreferencedResources.length) {
+        unreferencedResources.sort((a, b) => b.size - a.size);
+        let reclaimableSize = unreferencedResources.reduce((total, resource) => total + resource.size, 0);
+
+        noteContent += `## 🗑️ Unreferenced resources (Reclaimable: ${formatSize(reclaimableSize)})\n\n`;
+        noteContent += `Resources that are not linked from any note.\n\n`;
+
+        for (let resource of unreferencedResources) {
+            noteContent += `- **Resource**: "${resource.title || 'Untitled'}"\n`;
+            noteContent += `  - **Type:** ${resource.mime || 'unknown'}\n`;
+            noteContent += `  - **Size:** ${formatSize(resource.size)}\n`;
+            noteContent += `  - **Created:** ${new Date(resource.created_time).toLocaleString()}\n`;
+            noteContent += `  - **ID:** ${resource.id}\n`;
+            noteContent += `\n`;
+        }
+    }
+
+    if (usage.duplicateResources.length) {
+        let wastedSize = usage.duplicateResources.reduce((total, group) => total + group[0].size * (group.length - 1), 0);
+
+        noteContent += `## 👯 Duplicate attachments (Reclaimable: ${formatSize(wastedSize)})\n\n`;
+        noteContent += `Resources with identical content. Keeping a single copy of each would free the space above.\n\n`;
+
+        for (let group of usage.duplicateResources) {
+            noteContent += `- **${group.length} copies** of ${formatSize(group[0].size)}\n`;
+            for (let resource of group) {
+                noteContent += `  - "${resource.title || 'Untitled'}" (ID: ${resource.id})\n`;
+                for (let note of resource.notes) {
+                    noteContent += `    - [${note.title || 'Untitled Note'}](:/${note.id})\n`;
+                }
+            }
+            noteContent += `\n`;
+        }
     }
 
     await joplin.data.put(['notes', newNote.id], null, {
         body: noteContent
     });
 
+    // A partial scan would show up as a huge drop in the next report
+    if (!usage.incomplete && !scope) {
+        await saveSnapshot(snapshots, snapshot);
+        await joplin.settings.setValue('lastReportTime', snapshot.time);
+    }
+
+    // Also shown for scheduled reports, which nobody is looking at otherwise
+    if (quotas.exceeded.length) {
+        let lines = quotas.exceeded.map(item => `- ${notebookNames[item.notebookId]}: ${formatSize(item.size)} (quota ${formatSize(item.quota)})`);
+        await joplin.views.dialogs.showMessageBox(`These notebooks are over their disk usage quota:\n\n${lines.join('\n')}`);
+    }
+
+    if (!interactive) { return; }
+
     // no way to refresh current note ater update
     const tmpNote = await joplin.data.post(['notes'], null, { title: 'delete this note' });
     await joplin.commands.execute('openNote', tmpNote.id);
-    await joplin.data.delete(['notes', tmpNote.id]);
+    await joplin.data.delete(['notes', tmpNote.id], { permanent: 1 }); // Not left behind in the trash
     await joplin.commands.execute('openNote', newNote.id);
 }
@@ -0,0 +1,75 @@
+import joplin from 'api';
+import { ItemFlow } from 'api/noteListType';
+import { formatSize } from './format';
+import { extractLinkedIds } from './usage';
+
+// Reads the links from the body rather than from Joplin's note/resource index,
+// which is only updated after a delay and would miss new attachments
+async function noteAttachmentSize(body) {
+    let total = 0;
+    for (let linkedId of extractLinkedIds(body)) {
+        try {
+            const resource = await joplin.data.get(['resources', linkedId], { fields: ['id', 'size'] });
+            total += resource.size;
+        } catch (error) {
+            continue; // A link to a note rather than a resource
+        }
+    }
+    return total;
+}
+
+export async function registerNoteList() {
+    await joplin.views.noteList.registerRenderer({
+        id: 'diskUsageNoteList',
+        label: async () => 'Attachment size',
+        flow: ItemFlow.TopToBottom,
+        itemSize: { width: 0, height: 34 },
+
+        // Joplin can't sort the list by this size, only by its built-in fields
+        dependencies: ['note.id', 'note.titleHtml', 'note.body', 'item.selected'],
+
+        itemCss: `
+            > .content {
+                display: flex;
+                align-items: center;
+                height: 100%;
+                padding: 0 10px;
+                box-sizing: border-box;
+                border-bottom: 1px solid var(--joplin-divider-color);
+                color: var(--joplin-color);
+            }
+
+            > .content.-selected {
+                background-color: var(--joplin-selected-color);
+            }
+
+            > .content > .title {
+                flex: 1;
+                overflow: hidden;
+                text-overflow: ellipsis;
+                white-space: nowrap;
+            }
+
+            > .content > .size {
+                margin-left: 8px;
+                opacity: 0.7;
+                font-variant-numeric: tabular-nums;
+            }
+        `,
+
+        itemTemplate: `
+            <div class="content {{#item.selected}}-selected{{/item.selected}}">
+                <div class="title">{{{note.titleHtml}}}</div>
+                <div class="size">{{attachmentSize}}</div>
+            </div>
+        `,
+
+        onRenderNote: async (props) => {
+            const size = await noteAttachmentSize(props.note.body);
+            return {
+                ...props,
+                attachmentSize: size ? formatSize(size) : '',
+            };
+        },
+    });
+}
@@ -0,0 +1,134 @@
+import joplin from 'api';
+import { MenuItemLocation } from 'api/types';
+import { formatSize } from './format';
+import { collectUsage, sortedChildren, formatProgress } from './usage';
+
+export async function registerPanel() {
+    const panel = await joplin.views.panels.create('diskUsagePanel');
+
+    await joplin.views.panels.setHtml(panel, `
+        <div id="du-panel">
+            <div class="du-toolbar">
+                <button id="du-refresh">Refresh</button>
+                <span id="du-status"></span>
+            </div>
+            <div id="du-breadcrumb"></div>
+            <div id="du-treemap"></div>
+        </div>
+    `);
+    await joplin.views.panels.addScript(panel, './webview/treemap.css');
+    await joplin.views.panels.addScript(panel, './webview/treemap.js');
+    await joplin.views.panels.hide(panel);
+
+    // Scanning can take a while, so the panel only scans when asked to and
+    // keeps the last result around for when it is reopened
+    let treemap = null;
+
+    await joplin.views.panels.onMessage(panel, async (message) => {
+        if (message.name === 'getTreemap') {
+            if (message.refresh) {
+                const usage = await collectUsage(async (progress) => {
+                    joplin.views.panels.postMessage(panel, { name: 'progress', text: formatProgress(progress) });
+                });
+                treemap = buildTreemap(usage);
+            }
+            return treemap;
+        }
+
+        if (message.name === 'openNote') {
+            await joplin.commands.execute('openNote', message.noteId);
+        }
+    });
+
+    await joplin.commands.register({
+        name: 'toggleDiskUsagePanel',
+        label: 'Toggle Disk Usage Panel',
+        iconName: 'fas fa-th-large',
+        execute: async () => {
+            const visible = await joplin.views.panels.visible(panel);
+            await joplin.views.panels.show(panel, !visible);
+        }
+    });
+
+    await joplin.views.menuItems.create('toggleDiskUsagePanelMenuItem', 'toggleDiskUsagePanel', MenuItemLocation.View);
+}
+
+// Turns the collected usage into a notebook → note → resource tree for the webview
+function buildTreemap(usage) {
+    let noteResources = {};
+    for (let notebookId of Object.keys(usage.resourceData)) {
+        for (let entry of usage.resourceData[notebookId]) {
+            if (!noteResources[entry.noteId]) {
+                noteResources[entry.noteId] = [];
+            }
+            noteResources[entry.noteId].push({
+                type: 'resource',
+                id: entry.id,
+                noteId: entry.noteId,
+                name: entry.resourceTitle,
+                size: entry.resourceSize,
+                sizeLabel: formatSize(entry.resourceSize),
+            });
+        }
+    }
+
+    let notebookNotes = {};
+    for (let note of usage.notes) {
+        let children = noteResources[note.id] || [];
+        if (note.textSize > 0) {
+            children = children.concat([{
+                type: 'text',
+                id: `${note.id}-text`,
+                noteId: note.id,
+                name: 'Text',
+                size: note.textSize,
+                sizeLabel: formatSize(note.textSize),
+            }]);
+        }
+
+        let size = children.reduce((total, child) => total + child.size, 0);
+        if (!size) { continue; }
+
+        if (!notebookNotes[note.parent_id]) {
+            notebookNotes[note.parent_id] = [];
+        }
+        notebookNotes[note.parent_id].push({
+            type: 'note',
+            id: note.id,
+            noteId: note.id,
+            name: note.title || 'Untitled Note',
+            size: size,
+            sizeLabel: formatSize(size),
+            children: children.sort((a, b) => b.size - a.size),
+        });
+    }
+
+    function notebookNode(notebookId) {
+        let children = sortedChildren(usage, notebookId)
+        .map(notebookNode)
+        .concat(notebookNotes[notebookId] || [])
+        .sort((a, b) => b.size - a.size);
+
+        return {
+            type: 'notebook',
+            id: notebookId,
+            name: usage.notebookNames[notebookId],
+            size: usage.cumulativeSizes[notebookId],
+            sizeLabel: formatSize(usage.cumulativeSizes[notebookId]),
+            children: children,
+        };
+    }
+
+    let children = sortedChildren(usage, '').map(notebookNode);
+    let size = children.reduce((total, child) => total + child.size, 0);
+
+    return {
+        type: 'notebook',
+        id: '',
+        incomplete: usage.incomplete,
+        name: 'All notebooks',
+        size: size,
+        sizeLabel: formatSize(size),
+        children: children,
+    };
+}
@@ -0,0 +1,62 @@
+import joplin from 'api';
+import { mebibytesToBytes } from './format';
+
+// A number of MiB, as a JSON number or string
+function isQuota(value) {
+    if (typeof value !== 'number' && (typeof value !== 'string' || !value.trim())) { return false; }
+    return Number(value) >= 0;
+}
+
+// Returns the notebooks whose size, including sub-notebooks, is above their
+// quota. The quotaGlobal setting applies to every top-level notebook and the
+// quotaNotebooks setting holds per-notebook limits as JSON, keyed by notebook
+// title or ID, e.g. {"Projects": 500}. Quotas are in MiB.
+export async function checkQuotas(usage) {
+    const globalQuota = await joplin.settings.value('quotaGlobal');
+    const notebookQuotasJson = (await joplin.settings.value('quotaNotebooks')).trim();
+
+    let notebookQuotas = {};
+    let error = null;
+    if (notebookQuotasJson) {
+        try {
+            notebookQuotas = JSON.parse(notebookQuotasJson);
+        } catch (parseError) {
+            error = `The per-notebook quotas setting is not valid JSON: ${parseError.message}`;
+        }
+    }
+
+    if (!notebookQuotas || typeof notebookQuotas !== 'object' || Array.isArray(notebookQuotas)) {
+        error = 'The per-notebook quotas setting must be a JSON object, e.g. {"Projects": 500}.';
+        notebookQuotas = {};
+    }
+
+    // Quotas such as "500MB" are reported instead of being silently ignored
+    let invalidKeys = Object.keys(notebookQuotas).filter(key => !isQuota(notebookQuotas[key]));
+    if (invalidKeys.length) {
+        error = `These per-notebook quotas are not numbers and were ignored: ${invalidKeys.join(', ')}`;
+        for (let key of invalidKeys) {
+            delete notebookQuotas[key];
+        }
+    }
+
+    let topLevelIds = usage.childFolders[''] || [];
+    let exceeded = [];
+
+    for (let notebookId of Object.keys(usage.cumulativeSizes)) {
+        let name = usage.notebookNames[notebookId];
+        let quota = notebookQuotas[notebookId] !== undefined ? notebookQuotas[notebookId] : notebookQuotas[name];
+        if (quota === undefined && topLevelIds.includes(notebookId)) {
+            quota = globalQuota;
+        }
+        if (!quota) { continue; }
+
+        let quotaSize = mebibytesToBytes(Number(quota));
+        if (usage.cumulativeSizes[notebookId] > quotaSize) {
+            exceeded.push({ notebookId, size: usage.cumulativeSizes[notebookId], quota: quotaSize });
+        }
+    }
+
+    exceeded.sort((a, b) => (b.size - b.quota) - (a.size - a.quota));
+
+    return { exceeded, error };
+}
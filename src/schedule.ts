@@ -0,0 +1,36 @@
+import joplin from 'api';
+import { isScanRunning } from './usage';
+
+const intervals = {
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// How often to check whether a scheduled report is due
+const checkInterval = 15 * 60 * 1000;
+
+// Runs createReport whenever the interval chosen in the scheduleInterval
+// setting has elapsed since the last report. The time of the last report is
+// kept in the lastReportTime setting so that restarting Joplin doesn't
+// trigger a new one.
+export async function registerSchedule(createReport) {
+    async function check() {
+        const interval = intervals[await joplin.settings.value('scheduleInterval')];
+        if (!interval || isScanRunning()) { return; }
+
+        const lastReportTime = await joplin.settings.value('lastReportTime');
+        if (Date.now() - lastReportTime < interval) { return; }
+
+        try {
+            await createReport();
+        } catch (error) {
+            console.error('Scheduled disk usage report failed:', error);
+        }
+    }
+
+    // Leave Joplin some time to finish starting up before the first check
+    setTimeout(() => {
+        void check();
+        setInterval(() => void check(), checkInterval);
+    }, 60 * 1000);
+}
@@ -0,0 +1,579 @@
+import joplin from 'api';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { findDuplicateResources } from './duplicates';
+
+// The scan currently collecting usage data, if any. Only one runs at a time.
+let activeScan = null;
+
+export function isScanRunning() {
+    return !!activeScan;
+}
+
+// Asks the running scan to stop. It finishes with the data fetched so far,
+// marked as incomplete.
+export function cancelScan() {
+    if (!activeScan) { return false; }
+    activeScan.cancelled = true;
+    return true;
+}
+
+export function formatProgress(progress) {
+    let count = progress.total ? `${progress.processed} / ${progress.total}` : `${progress.processed}`;
+    return `${progress.phase}: ${count}`;
+}
+
+function createScan(onProgress) {
+    return {
+        cancelled: false,
+        phase: '',
+        progress: async function(phase, processed, total = null) {
+            this.phase = phase;
+            if (onProgress) {
+                await onProgress({ phase, processed, total });
+            }
+        },
+    };
+}
+
+export async function fetchAll(path, fields, scan = null, phase = '') {
+    let page = 1;
+    let items = [];
+    let pageSize = 100;
+    let response;
+
+    do {
+        if (scan && scan.cancelled) { break; }
+
+        response = await joplin.data.get(path, {
+            fields: fields,
+            page: page,
+            limit: pageSize
+        });
+        items = items.concat(response.items);
+        page++;
+
+        if (scan) {
+            await scan.progress(phase, items.length);
+        }
+    } while (response.has_more);
+
+    return items;
+}
+
+const resourceFields = ['id', 'size', 'title', 'mime', 'file_extension', 'created_time', 'encryption_applied', 'encryption_blob_encrypted'];
+const noteFields = ['id', 'title', 'parent_id', 'body', 'markup_language', 'created_time', 'deleted_time'];
+
+// Fetches every resource along with the notes that link to it. The links are
+// taken from the note bodies rather than asking the API for each resource,
+// which is far too slow on profiles with many resources.
+export async function fetchResourcesWithNotes(notes = null, scan = null) {
+    if (!notes) {
+        notes = await fetchNotesWithTextSize(scan);
+    }
+
+    let resources = await fetchAll(['resources'], resourceFields, scan, 'Fetching resources'); // Fetch size and title explicitly
+
+    return linkResources(resources, notes, scan);
+}
+
+// Fetches only the resources linked from the given notes, one by one, for
+// reports scoped to a few notes where fetching every resource would be wasteful
+async function fetchLinkedResources(notes, scan) {
+    let linkedIds = new Set<string>();
+    for (let note of notes) {
+        for (let linkedId of note.linkedIds) {
+            linkedIds.add(linkedId);
+        }
+    }
+
+    let resources = [];
+    for (let linkedId of linkedIds) {
+        if (scan.cancelled) { break; }
+
+        try {
+            resources.push(await joplin.data.get(['resources', linkedId], { fields: resourceFields }));
+        } catch (error) {
+            continue; // A link to a note rather than a resource
+        }
+
+        await scan.progress('Fetching resources', resources.length, linkedIds.size);
+    }
+
+    return linkResources(resources, notes, scan);
+}
+
+// Notes in the trash are kept apart in resource.trashedNotes: their resources
+// are still on disk but go away once the trash is emptied
+async function linkResources(resources, notes, scan) {
+    let resourcesById = {};
+    for (let resource of resources) {
+        resource.notes = [];
+        resource.trashedNotes = [];
+        resourcesById[resource.id] = resource;
+    }
+
+    for (let i = 0; i < notes.length; i++) {
+        let note = notes[i];
+        if (scan && i % 1000 === 0) {
+            await scan.progress('Linking resources to notes', i, notes.length);
+        }
+
+        for (let linkedId of note.linkedIds) {
+            // Links to other notes are matched too, they're simply not found here
+            if (resourcesById[linkedId]) {
+                resourcesById[linkedId][note.deleted_time ? 'trashedNotes' : 'notes'].push(note);
+            }
+        }
+    }
+
+    return resources;
+}
+
+// Returns the IDs of the items linked from a note body as ":/<id>", which is
+// how both Markdown and HTML notes reference resources
+export function extractLinkedIds(body) {
+    let linkRegex = /:\/([0-9a-zA-Z]{32})/g;
+    let ids = new Set<string>();
+    let match;
+
+    while ((match = linkRegex.exec(body || '')) !== null) {
+        ids.add(match[1]);
+    }
+
+    return Array.from(ids);
+}
+
+export function textSize(text) {
+    return new TextEncoder().encode(text || '').length;
+}
+
+// Keeps the size of the body and the IDs it links to instead of the body itself
+function summarizeNote(note) {
+    return {
+        id: note.id,
+        title: note.title,
+        parent_id: note.parent_id,
+        created_time: note.created_time,
+        deleted_time: note.deleted_time || 0,
+        isHtml: note.markup_language === 2,
+        textSize: textSize(note.body),
+        linkedIds: extractLinkedIds(note.body),
+    };
+}
+
+// Resources linked from neither a note nor a note in the trash
+export function isUnreferenced(resource) {
+    return !resource.notes.length && !resource.trashedNotes.length;
+}
+
+// Query parameters for a note listing, on top of the fields and paging
+interface NoteQuery {
+    include_deleted?: number;
+    query?: string;
+    type?: string;
+}
+
+// Fetches every note at path (all the notes, including those in the trash, by
+// default) with the size of its body and the IDs it links to instead of the body itself
+export async function fetchNotesWithTextSize(scan = null, path = ['notes'], query: NoteQuery = { include_deleted: 1 }) {
+    let notes = [];
+    let page = 1;
+    let response;
+
+    // Paged by hand so that the bodies of a page can be dropped once measured
+    do {
+        if (scan && scan.cancelled) { break; }
+
+        response = await joplin.data.get(path, {
+            ...query,
+            fields: noteFields,
+            page: page,
+            limit: 100
+        });
+        for (let note of response.items) {
+            notes.push(summarizeNote(note));
+        }
+        page++;
+
+        if (scan) {
+            await scan.progress('Fetching notes', notes.length);
+        }
+    } while (response.has_more);
+
+    return notes;
+}
+
+// The part of the profile a scoped report covers. label describes it in the report.
+interface ReportScope {
+    type: 'folder' | 'notes' | 'search';
+    label: string;
+    folderId?: string;
+    noteIds?: string[];
+    query?: string;
+}
+
+// Fetches the notes a scoped report covers: the notes of a notebook and its
+// sub-notebooks, a list of notes, or the results of a search query
+async function fetchScopedNotes(scope: ReportScope, folders, scan) {
+    if (scope.type === 'folder') {
+        let folderIds = [scope.folderId];
+        for (let i = 0; i < folderIds.length; i++) {
+            for (let folder of folders) {
+                if (folder.parent_id === folderIds[i]) {
+                    folderIds.push(folder.id);
+                }
+            }
+        }
+
+        let notes = [];
+        for (let folderId of folderIds) {
+            notes = notes.concat(await fetchNotesWithTextSize(scan, ['folders', folderId, 'notes']));
+        }
+        return notes;
+    }
+
+    if (scope.type === 'notes') {
+        let notes = [];
+        for (let noteId of scope.noteIds) {
+            if (scan.cancelled) { break; }
+
+            try {
+                notes.push(summarizeNote(await joplin.data.get(['notes', noteId], { fields: noteFields })));
+            } catch (error) {
+                continue; // Deleted since it was selected
+            }
+
+            await scan.progress('Fetching notes', notes.length, scope.noteIds.length);
+        }
+        return notes;
+    }
+
+    return fetchNotesWithTextSize(scan, ['search'], { query: scope.query, type: 'note' });
+}
+
+// Gathers everything the report and the panel need: the notebook tree, which
+// resources are attached to which notebook, and the own and cumulative sizes.
+// onProgress is called with the current phase and item counts as the scan goes.
+// Set options.findDuplicates to also look for resources with identical content,
+// and options.scope to only look at some notes (see fetchScopedNotes()).
+export async function collectUsage(onProgress = null, options: { findDuplicates?: boolean, scope?: ReportScope } = {}) {
+    if (activeScan) {
+        throw new Error('A disk usage scan is already running.');
+    }
+
+    activeScan = createScan(onProgress);
+    try {
+        return await collectUsageWithScan(activeScan, options);
+    } finally {
+        activeScan = null;
+    }
+}
+
+export const resourceCategories = {
+    image: 'Images',
+    pdf: 'PDFs',
+    audio: 'Audio',
+    video: 'Video',
+    other: 'Other',
+};
+
+export function resourceCategory(resource) {
+    const mime = resource.mime || '';
+    if (mime.startsWith('image/')) { return 'image'; }
+    if (mime === 'application/pdf' || resource.file_extension === 'pdf') { return 'pdf'; }
+    if (mime.startsWith('audio/')) { return 'audio'; }
+    if (mime.startsWith('video/')) { return 'video'; }
+    return 'other';
+}
+
+function addSize(sizes, key, size) {
+    if (!sizes[key]) {
+        sizes[key] = { count: 0, size: 0 };
+    }
+    sizes[key].count++;
+    sizes[key].size += size;
+}
+
+export const localStates = {
+    local: 'On this device',
+    encrypted: 'Encrypted blob, not decrypted yet',
+    remote: 'Not downloaded (remote only or pending download)',
+    unknown: 'Unknown (the resource directory could not be read)',
+};
+
+// Sets resource.localState to one of the localStates keys. Resources which
+// haven't been downloaded yet (e.g. with "download on demand") have no file in
+// the resource directory, so it is listed once instead of checking each file.
+// Joplin keeps fetch_status in its resource_local_states table, which the data
+// API doesn't expose, so resources waiting for the sync to download them can't
+// be told apart from those only downloaded on demand.
+async function setLocalStates(resources) {
+    if (!resources.length) { return; }
+
+    let fileIds = new Set<string>();
+    try {
+        const resourceDir = path.dirname(await joplin.data.resourcePath(resources[0].id));
+        for (let fileName of await fs.readdir(resourceDir)) {
+            fileIds.add(fileName.split('.')[0]);
+        }
+    } catch (error) {
+        console.warn('Could not list the resource directory:', error);
+        fileIds = null;
+    }
+
+    for (let resource of resources) {
+        if (!fileIds) {
+            resource.localState = 'unknown';
+        } else if (!fileIds.has(resource.id)) {
+            resource.localState = 'remote';
+        } else if (resource.encryption_blob_encrypted) {
+            resource.localState = 'encrypted';
+        } else {
+            resource.localState = 'local';
+        }
+    }
+}
+
+// How much of a resource linked from several notebooks is counted in one of them,
+// according to the attributionPolicy setting. notebookIds are ordered by the
+// creation time of their oldest note linking to the resource.
+export function attributedSize(policy, size, notebookIds, notebookId) {
+    if (policy === 'split') {
+        return size / notebookIds.length;
+    }
+    if (policy === 'first') {
+        return notebookId === notebookIds[0] ? size : 0;
+    }
+    return size;
+}
+
+async function collectUsageWithScan(scan, options) {
+    const policy = await joplin.settings.value('attributionPolicy');
+
+    let folders = await fetchAll(['folders'], ['id', 'title', 'parent_id'], scan, 'Fetching notebooks');
+    let allNotes = options.scope ? await fetchScopedNotes(options.scope, folders, scan) : await fetchNotesWithTextSize(scan);
+    let resources = options.scope ? await fetchLinkedResources(allNotes, scan) : await fetchResourcesWithNotes(allNotes, scan);
+    let notes = allNotes.filter(note => !note.deleted_time);
+    let trashedNotes = allNotes.filter(note => note.deleted_time);
+    let duplicateResources = options.findDuplicates ? await findDuplicateResources(resources, scan) : [];
+    await setLocalStates(resources);
+
+    let notebookNames = {};
+    let childFolders = {}; // parent_id => child folder ids, '' being the root
+    for (let folder of folders) {
+        notebookNames[folder.id] = folder.title;
+    }
+    for (let folder of folders) {
+        // Treat folders whose parent is unknown as top-level so they still show up
+        let parentId = notebookNames[folder.parent_id] !== undefined ? folder.parent_id : '';
+        if (!childFolders[parentId]) {
+            childFolders[parentId] = [];
+        }
+        childFolders[parentId].push(folder.id);
+    }
+
+    function ensureNotebook(notebookId) {
+        if (notebookNames[notebookId] === undefined) {
+            notebookNames[notebookId] = 'Unknown notebook';
+            if (!childFolders['']) {
+                childFolders[''] = [];
+            }
+            childFolders[''].push(notebookId);
+        }
+    }
+
+    let resourceData = {};
+    let unreferencedResources = [];
+    let trashResources = []; // Only linked from notes in the trash
+    let categorySizes = {}; // Every resource counted once, by category and by file extension
+    let extensionSizes = {};
+    let localStateSizes = {}; // Every resource counted once, by whether its file is on this device
+    let notebookCategorySizes = {}; // Distinct resources directly in each notebook, by category
+    let notebookSizes = {}; // Size of the resources directly in each notebook
+    let notebookResourceIds = {}; // Distinct resources directly in each notebook
+    let resourcesById = {};
+    let totalAttachmentSize = 0; // Each resource counted once, whatever the policy
+    let sharedResourceCount = 0;
+    let notebookTextSizes = {}; // Size of the note bodies directly in each notebook
+
+    for (let note of notes) {
+        ensureNotebook(note.parent_id);
+        notebookTextSizes[note.parent_id] = (notebookTextSizes[note.parent_id] || 0) + note.textSize;
+    }
+
+    for (let resource of resources) {
+        let resourceId = resource.id;
+        let resourceSize = resource.size;
+        let resourceTitle = resource.title || 'Untitled';
+        let category = resourceCategory(resource);
+
+        addSize(categorySizes, category, resourceSize);
+        addSize(localStateSizes, resource.localState, resourceSize);
+        addSize(extensionSizes, (resource.file_extension || '').toLowerCase() || 'none', resourceSize);
+
+        if (isUnreferenced(resource)) {
+            unreferencedResources.push(resource);
+            continue;
+        }
+        if (!resource.notes.length) {
+            trashResources.push(resource);
+            continue;
+        }
+
+        resourcesById[resourceId] = resource;
+        totalAttachmentSize += resourceSize;
+
+        let notebookIds = resource.notes
+        .slice()
+        .sort((a, b) => a.created_time - b.created_time)
+        .map(note => note.parent_id)
+        .filter((notebookId, index, ids) => ids.indexOf(notebookId) === index);
+
+        let shared = notebookIds.length > 1;
+        if (shared) {
+            sharedResourceCount++;
+        }
+
+        for (let note of resource.notes) {
+            let noteId = note.id;
+            let noteTitle = note.title || 'Untitled Note';
+            let notebookId = note.parent_id;
+
+            ensureNotebook(notebookId);
+
+            if (!resourceData[notebookId]) {
+                resourceData[notebookId] = [];
+            }
+
+            resourceData[notebookId].push({
+                resourceTitle: resourceTitle,
+                resourceSize: resourceSize,
+                resourceMime: resource.mime || '',
+                attributedSize: attributedSize(policy, resourceSize, notebookIds, notebookId),
+                shared: shared,
+                notebookCount: notebookIds.length,
+                ownerNotebookId: notebookIds[0],
+                noteTitle: noteTitle,
+                noteLink: `:/${noteId}`,
+                noteId: noteId,
+                id: resourceId
+            });
+        }
+
+        // Count the resource once per notebook even when several of its notes link to it
+        for (let notebookId of notebookIds) {
+            notebookSizes[notebookId] = (notebookSizes[notebookId] || 0) + attributedSize(policy, resourceSize, notebookIds, notebookId);
+
+            if (!notebookResourceIds[notebookId]) {
+                notebookResourceIds[notebookId] = new Set();
+            }
+            notebookResourceIds[notebookId].add(resourceId);
+
+            if (!notebookCategorySizes[notebookId]) {
+                notebookCategorySizes[notebookId] = {};
+            }
+            addSize(notebookCategorySizes[notebookId], category, resourceSize);
+        }
+    }
+
+    // Roll the sizes up the hierarchy so a parent includes all its sub-notebooks
+    function rollUp(ownSizes) {
+        let cumulative = {};
+        function computeCumulative(notebookId) {
+            let total = ownSizes[notebookId] || 0;
+            for (let childId of childFolders[notebookId] || []) {
+                total += computeCumulative(childId);
+            }
+            cumulative[notebookId] = total;
+            return total;
+        }
+        for (let notebookId of childFolders[''] || []) {
+            computeCumulative(notebookId);
+        }
+        return cumulative;
+    }
+
+    // When resources count fully everywhere, a resource shared by two sub-notebooks
+    // must still only count once in their parent
+    function rollUpDistinct() {
+        let cumulative = {};
+        function computeCumulative(notebookId) {
+            let ids = new Set<string>(notebookResourceIds[notebookId] || []);
+            for (let childId of childFolders[notebookId] || []) {
+                for (let id of computeCumulative(childId)) {
+                    ids.add(id);
+                }
+            }
+            let total = 0;
+            for (let id of ids) {
+                total += resourcesById[id].size;
+            }
+            cumulative[notebookId] = total;
+            return ids;
+        }
+        for (let notebookId of childFolders[''] || []) {
+            computeCumulative(notebookId);
+        }
+        return cumulative;
+    }
+
+    // What each note in the trash holds: its body and the resources only notes
+    // in the trash use. A resource used by several of them is listed for each.
+    for (let note of trashedNotes) {
+        note.trashResources = [];
+        note.trashSize = note.textSize;
+    }
+    for (let resource of trashResources) {
+        for (let note of resource.trashedNotes) {
+            note.trashResources.push(resource);
+            note.trashSize += resource.size;
+        }
+    }
+
+    let cumulativeAttachmentSizes = policy === 'split' || policy === 'first' ? rollUp(notebookSizes) : rollUpDistinct();
+    let cumulativeTextSizes = rollUp(notebookTextSizes);
+    let cumulativeSizes = {};
+    for (let notebookId of Object.keys(cumulativeAttachmentSizes)) {
+        cumulativeSizes[notebookId] = cumulativeAttachmentSizes[notebookId] + cumulativeTextSizes[notebookId];
+    }
+
+    return {
+        scope: options.scope || null,
+        incomplete: scan.cancelled,
+        cancelledPhase: scan.cancelled ? scan.phase : null,
+        resources,
+        notes,
+        notebookNames,
+        childFolders,
+        resourceData,
+        unreferencedResources,
+        trashedNotes,
+        trashResources,
+        totalTrashSize: trashedNotes.reduce((total, note) => total + note.textSize, 0) + trashResources.reduce((total, resource) => total + resource.size, 0),
+        duplicateResources,
+        categorySizes,
+        localStateSizes,
+        extensionSizes,
+        notebookCategorySizes,
+        notebookSizes,
+        notebookTextSizes,
+        cumulativeAttachmentSizes,
+        cumulativeTextSizes,
+        cumulativeSizes,
+        policy,
+        totalAttachmentSize,
+        totalTextSize: notes.reduce((total, note) => total + note.textSize, 0),
+        // Everything on disk: every resource once and every note body, including
+        // unreferenced resources and the notes in the trash
+        totalSize: resources.reduce((total, resource) => total + resource.size, 0) + allNotes.reduce((total, note) => total + note.textSize, 0),
+        sharedResourceCount,
+    };
+}
+
+// Child notebooks of parentId ('' for the root) which hold any data, biggest first
+export function sortedChildren(usage, parentId) {
+    return (usage.childFolders[parentId] || [])
+    .filter(notebookId => usage.cumulativeSizes[notebookId] > 0)
+    .sort((a, b) => usage.cumulativeSizes[b] - usage.cumulativeSizes[a]);
+}
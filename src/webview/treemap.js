@@ -0,0 +1,198 @@
+/* global webviewApi */
+
+(function() {
+    let root = null;
+    let path = []; // Notebook nodes drilled into, from the root down
+
+    function currentNode() {
+        return path.length ? path[path.length - 1] : root;
+    }
+
+    function sum(items) {
+        return items.reduce((total, item) => total + item.area, 0);
+    }
+
+    // Aspect ratio of the worst tile if the row is laid along a side of the given length
+    function worst(row, side) {
+        const s = sum(row);
+        const max = Math.max(...row.map(item => item.area));
+        const min = Math.min(...row.map(item => item.area));
+        return Math.max((side * side * max) / (s * s), (s * s) / (side * side * min));
+    }
+
+    function layoutRow(row, rect, tiles) {
+        const s = sum(row);
+        if (rect.w >= rect.h) {
+            const width = s / rect.h;
+            let y = rect.y;
+            for (const item of row) {
+                const height = item.area / width;
+                tiles.push({ node: item.node, x: rect.x, y: y, w: width, h: height });
+                y += height;
+            }
+            return { x: rect.x + width, y: rect.y, w: rect.w - width, h: rect.h };
+        }
+
+        const height = s / rect.w;
+        let x = rect.x;
+        for (const item of row) {
+            const width = item.area / height;
+            tiles.push({ node: item.node, x: x, y: rect.y, w: width, h: height });
+            x += width;
+        }
+        return { x: rect.x, y: rect.y + height, w: rect.w, h: rect.h - height };
+    }
+
+    // Squarified treemap layout. Nodes must be sorted by size, biggest first.
+    function squarify(nodes, rect) {
+        const total = nodes.reduce((t, node) => t + node.size, 0);
+        if (!total || rect.w <= 0 || rect.h <= 0) return [];
+
+        const scale = (rect.w * rect.h) / total;
+        const items = nodes.filter(node => node.size > 0).map(node => ({ node: node, area: node.size * scale }));
+        const tiles = [];
+        let row = [];
+
+        while (items.length) {
+            const side = Math.min(rect.w, rect.h);
+            if (!row.length || worst(row.concat([items[0]]), side) <= worst(row, side)) {
+                row.push(items.shift());
+            } else {
+                rect = layoutRow(row, rect, tiles);
+                row = [];
+            }
+        }
+        if (row.length) layoutRow(row, rect, tiles);
+
+        return tiles;
+    }
+
+    function createTile(tile, parentElement) {
+        const element = document.createElement('div');
+        element.className = `du-tile du-${tile.node.type}`;
+        element.style.left = `${tile.x}px`;
+        element.style.top = `${tile.y}px`;
+        element.style.width = `${tile.w}px`;
+        element.style.height = `${tile.h}px`;
+        element.title = `${tile.node.name} (${tile.node.sizeLabel})`;
+        element.dataset.type = tile.node.type;
+        element.dataset.id = tile.node.id;
+        if (tile.node.noteId) element.dataset.noteId = tile.node.noteId;
+
+        const label = document.createElement('div');
+        label.className = 'du-label';
+        label.textContent = `${tile.node.name} ${tile.node.sizeLabel}`;
+        element.appendChild(label);
+
+        parentElement.appendChild(element);
+
+        // Show the resources of a note inside its tile when there is room for them
+        if (tile.node.type === 'note' && tile.w > 60 && tile.h > 40) {
+            const inner = squarify(tile.node.children, { x: 0, y: 16, w: tile.w, h: tile.h - 16 });
+            for (const innerTile of inner) createTile(innerTile, element);
+        }
+    }
+
+    function renderBreadcrumb() {
+        const breadcrumb = document.getElementById('du-breadcrumb');
+        breadcrumb.innerHTML = '';
+
+        const crumbs = [root].concat(path);
+        crumbs.forEach((node, index) => {
+            const crumb = document.createElement('a');
+            crumb.href = '#';
+            crumb.textContent = `${node.name} (${node.sizeLabel})`;
+            crumb.dataset.depth = String(index);
+            breadcrumb.appendChild(crumb);
+            if (index < crumbs.length - 1) breadcrumb.appendChild(document.createTextNode(' › '));
+        });
+    }
+
+    function render() {
+        const container = document.getElementById('du-treemap');
+        container.innerHTML = '';
+        document.getElementById('du-breadcrumb').innerHTML = '';
+
+        if (!root) {
+            document.getElementById('du-status').textContent = 'Press Refresh to scan the profile.';
+            return;
+        }
+
+        renderBreadcrumb();
+
+        const node = currentNode();
+        const tiles = squarify(node.children, { x: 0, y: 0, w: container.clientWidth, h: container.clientHeight });
+        for (const tile of tiles) createTile(tile, container);
+    }
+
+    async function load(refresh) {
+        const status = document.getElementById('du-status');
+        const button = document.getElementById('du-refresh');
+        status.textContent = refresh ? 'Scanning...' : '';
+        button.disabled = true;
+
+        try {
+            root = await webviewApi.postMessage({ name: 'getTreemap', refresh: refresh });
+            path = [];
+            status.textContent = root && root.incomplete ? 'Scan cancelled, the treemap is incomplete.' : '';
+        } catch (error) {
+            status.textContent = `Scan failed: ${error.message}`;
+        }
+
+        button.disabled = false;
+        render();
+    }
+
+    function findChild(node, id) {
+        return (node.children || []).find(child => child.id === id);
+    }
+
+    document.addEventListener('click', event => {
+        if (event.target.id === 'du-refresh') {
+            void load(true);
+            return;
+        }
+
+        const crumb = event.target.closest('#du-breadcrumb a');
+        if (crumb) {
+            event.preventDefault();
+            path = path.slice(0, Number(crumb.dataset.depth));
+            render();
+            return;
+        }
+
+        const tile = event.target.closest('.du-tile');
+        if (!tile) return;
+
+        if (tile.dataset.type === 'notebook') {
+            const child = findChild(currentNode(), tile.dataset.id);
+            if (child) {
+                path.push(child);
+                render();
+            }
+        } else {
+            void webviewApi.postMessage({ name: 'openNote', noteId: tile.dataset.noteId });
+        }
+    });
+
+    webviewApi.onMessage(event => {
+        if (event.message.name === 'progress') {
+            document.getElementById('du-status').textContent = event.message.text;
+        }
+    });
+
+    window.addEventListener('resize', () => {
+        if (document.getElementById('du-treemap')) render();
+    });
+
+    // The panel HTML may be set after this script runs
+    function init() {
+        if (!document.getElementById('du-treemap')) {
+            setTimeout(init, 100);
+            return;
+        }
+        void load(false);
+    }
+
+    init();
+})();